@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+
+/**
+ * Generates schemas/sonarflowrc.schema.json from the zod configuration schema.
+ * Runs after the build (it imports the compiled schema from dist/), so the published
+ * JSON schema always matches the validation done by the CLI.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const rootDir = join(__dirname, "..");
+
+try {
+  const packageJson = JSON.parse(readFileSync(join(rootDir, "package.json"), "utf8"));
+  const { buildConfigJsonSchema } = await import("../dist/config/config-schema.js");
+
+  const schemaPath = join(rootDir, "schemas", "sonarflowrc.schema.json");
+  const schema = buildConfigJsonSchema(packageJson.version);
+  writeFileSync(schemaPath, `${JSON.stringify(schema, null, 2)}\n`, "utf8");
+
+  console.log(`✅ Generated ${schemaPath}`);
+} catch (error) {
+  console.error("❌ Error generating the configuration schema:", error);
+  process.exit(1);
+}
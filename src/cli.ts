@@ -7,6 +7,17 @@ import { fileURLToPath } from "node:url";
 import chalk from "chalk";
 import { Command } from "commander";
 import dotenv from "dotenv";
+import { configureCommentCommand } from "./comment/comment-options.js";
+import { configureConfigCommand } from "./config/config-options.js";
+import { configureDiffCommand } from "./diff/diff-options.js";
+import { configureExportCommand } from "./export/export-options.js";
+import { configureGateCommand } from "./gate/gate-options.js";
+import { configureTrendCommand } from "./history/trend-options.js";
+import { configureInitCommand } from "./init-options.js";
+import { configureInsightsCommand } from "./insights/insights-options.js";
+import { configureIssueCommand } from "./issue/issue-options.js";
+import { configureReportCommand } from "./report/report-options.js";
+import { configureFetchCommand } from "./versioning/fetch-options.js";
 
 dotenv.config();
 
@@ -110,23 +121,55 @@ if (requestedVersion) {
   process.exit(0);
 }
 
-program
-  .command("init")
-  .description("Initialize configuration for sonarflow")
-  .allowExcessArguments(true)
-  .action(() => {
-    runNodeScript("./init.js", process.argv.slice(3));
-    showUpdateReminder();
+configureInitCommand(program.command("init")).action(() => {
+  runNodeScript("./init.js", process.argv.slice(3));
+  showUpdateReminder();
+});
+
+configureFetchCommand(program.command("fetch")).action(() => {
+  runNodeScript("./versioning/index.js", process.argv.slice(3));
+  showUpdateReminder();
+});
+
+configureExportCommand(program.command("export")).action(() => {
+  runNodeScript("./export/index.js", process.argv.slice(3));
+});
+
+configureDiffCommand(program.command("diff")).action(() => {
+  runNodeScript("./diff/index.js", process.argv.slice(3));
+});
+
+configureReportCommand(program.command("report")).action(() => {
+  runNodeScript("./report/index.js", process.argv.slice(3));
+});
+
+configureTrendCommand(program.command("trend")).action(() => {
+  runNodeScript("./history/index.js", process.argv.slice(3));
+});
+
+configureGateCommand(program.command("gate")).action(() => {
+  runNodeScript("./gate/index.js", process.argv.slice(3));
+});
+
+configureCommentCommand(program.command("comment")).action(() => {
+  runNodeScript("./comment/index.js", process.argv.slice(3));
+});
+
+configureInsightsCommand(program.command("insights")).action(() => {
+  runNodeScript("./insights/index.js", process.argv.slice(3));
+});
+
+for (const subcommand of configureIssueCommand(program.command("issue")).commands) {
+  subcommand.action(() => {
+    runNodeScript("./issue/index.js", process.argv.slice(3));
   });
+}
 
-program
-  .command("fetch")
-  .description("Fetch Sonar issues and save to .sonarflow/issues.json")
-  .allowExcessArguments(true)
-  .action(() => {
-    runNodeScript("./versioning/index.js", process.argv.slice(3));
-    showUpdateReminder();
+for (const subcommand of configureConfigCommand(program.command("config")).commands) {
+  subcommand.action(() => {
+    runNodeScript("./config/index.js", process.argv.slice(3));
   });
+}
 
 program
   .command("update")
@@ -0,0 +1,38 @@
+import { type Command, Option } from "commander";
+import { parsePrId } from "../versioning/fetch-options.js";
+
+/**
+ * Options of the comment command, as parsed by commander
+ */
+export interface CommentOptions {
+  /** GitHub pull request number */
+  pr?: string;
+  /** Directory containing issues.json (default: outputPath or .sonarflow/) */
+  input?: string;
+  /** Whether to look up the open PR of the current branch on GitHub */
+  prDetect: boolean;
+  /** Print the planned review instead of posting it */
+  dryRun?: boolean;
+}
+
+/**
+ * Declares options of the comment command
+ * Shared by the sonarflow CLI (help and validation) and the comment script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureCommentCommand = (command: Command): Command =>
+  command
+    .description("Post fetched issues as inline review comments on the GitHub pull request")
+    .addOption(
+      new Option(
+        "--pr <number>",
+        "Pull request number (default: PR of issues.json, or of the current branch)"
+      ).argParser(parsePrId)
+    )
+    .option(
+      "-i, --input <dir>",
+      "Directory containing issues.json (default: outputPath or .sonarflow/)"
+    )
+    .option("--no-pr-detect", "Do not look up the open PR of the current branch on GitHub")
+    .option("--dry-run", "Print the planned review without posting it");
@@ -0,0 +1,296 @@
+import { httpRequest } from "../http/http-client.js";
+
+/**
+ * Inline review comment, as returned by the GitHub REST API
+ */
+export interface GitHubReviewComment {
+  id: number;
+  path: string;
+  /** Line in the current diff, null when the comment is outdated */
+  line: number | null;
+  body: string;
+}
+
+/**
+ * Pull request review, as returned by the GitHub REST API
+ */
+export interface GitHubReview {
+  id: number;
+  body: string | null;
+}
+
+/**
+ * Inline comment of a new review
+ */
+export interface NewReviewComment {
+  path: string;
+  line: number;
+  side: "RIGHT";
+  body: string;
+}
+
+/**
+ * Review thread state, as returned by the GitHub GraphQL API
+ */
+export interface GitHubReviewThread {
+  id: string;
+  isResolved: boolean;
+}
+
+const PAGE_SIZE = 100;
+
+interface ReviewThreadsPage {
+  data?: {
+    repository?: {
+      pullRequest?: {
+        reviewThreads: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: Array<{
+            id: string;
+            isResolved: boolean;
+            comments: { nodes: Array<{ databaseId: number | null }> };
+          }>;
+        };
+      } | null;
+    } | null;
+  };
+  errors?: Array<{ message: string }>;
+}
+
+const REVIEW_THREADS_QUERY = `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+      }
+    }
+  }
+}`;
+
+/**
+ * GitHubReviewClient - Reads and writes the reviews of a GitHub pull request
+ */
+export class GitHubReviewClient {
+  private readonly repoUrl: string;
+  private readonly graphqlUrl: string;
+
+  /**
+   * Creates a client for one repository
+   * @param apiUrl - GitHub REST API base URL (e.g. https://api.github.com or https://ghe.corp/api/v3)
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param headers - Authentication headers
+   */
+  constructor(
+    apiUrl: string,
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly headers: Record<string, string>
+  ) {
+    this.repoUrl = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    // GitHub Enterprise Server serves GraphQL at /api/graphql, next to /api/v3
+    this.graphqlUrl = `${apiUrl.replace(/\/v3$/, "")}/graphql`;
+  }
+
+  /**
+   * Performs a JSON request against the REST API
+   * @param path - Path relative to the repository URL
+   * @param method - HTTP method
+   * @param body - JSON body, if any
+   * @param idempotent - Whether a write can be repeated after a 5xx or timeout; writes that
+   *   create something are only retried when rate limited, so they are never applied twice
+   * @returns Parsed response
+   */
+  private async request<T>(
+    path: string,
+    method = "GET",
+    body?: unknown,
+    idempotent = false
+  ): Promise<T> {
+    const response = await httpRequest(`${this.repoUrl}${path}`, {
+      service: "GitHub",
+      method,
+      retryUnsafeMethods: idempotent,
+      headers: {
+        ...this.headers,
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Fetches every page of a REST list endpoint
+   * @param path - Path relative to the repository URL
+   * @returns All items
+   */
+  private async list<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const separator = path.includes("?") ? "&" : "?";
+      const pageItems = await this.request<T[]>(
+        `${path}${separator}per_page=${PAGE_SIZE}&page=${page}`
+      );
+      items.push(...pageItems);
+      if (pageItems.length < PAGE_SIZE) {
+        return items;
+      }
+    }
+  }
+
+  /**
+   * Performs a GraphQL request
+   * @param query - GraphQL query or mutation
+   * @param variables - Query variables
+   * @param isQuery - Whether the request only reads, so it is retried like a GET; mutations are
+   *   only retried when rate limited
+   * @returns Response data
+   * @throws Error when GitHub reports GraphQL errors
+   */
+  private async graphql<T extends { errors?: Array<{ message: string }> }>(
+    query: string,
+    variables: Record<string, unknown>,
+    isQuery = false
+  ): Promise<T> {
+    const response = await httpRequest(this.graphqlUrl, {
+      service: "GitHub",
+      method: "POST",
+      retryUnsafeMethods: isQuery,
+      headers: { ...this.headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+    });
+    const result = (await response.json()) as T;
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(`GitHub GraphQL error: ${result.errors.map((e) => e.message).join("; ")}`);
+    }
+    return result;
+  }
+
+  /**
+   * Gets the head commit of a pull request
+   * @param prNumber - Pull request number
+   * @returns Head commit SHA
+   */
+  async getHeadSha(prNumber: string): Promise<string> {
+    const pr = await this.request<{ head: { sha: string } }>(`/pulls/${prNumber}`);
+    return pr.head.sha;
+  }
+
+  /**
+   * Lists the lines that accept inline comments: the diff hunks of each changed file
+   * @param prNumber - Pull request number
+   * @returns Unified diff of the pull request, one `+++` header per file
+   */
+  async getDiff(prNumber: string): Promise<string> {
+    const files = await this.list<{ filename: string; patch?: string }>(`/pulls/${prNumber}/files`);
+    return files
+      .filter((file) => file.patch)
+      .map((file) => `+++ b/${file.filename}\n${file.patch}`)
+      .join("\n");
+  }
+
+  /**
+   * Lists the inline review comments of a pull request
+   * @param prNumber - Pull request number
+   * @returns Review comments
+   */
+  async listReviewComments(prNumber: string): Promise<GitHubReviewComment[]> {
+    return await this.list<GitHubReviewComment>(`/pulls/${prNumber}/comments`);
+  }
+
+  /**
+   * Lists the reviews of a pull request
+   * @param prNumber - Pull request number
+   * @returns Reviews
+   */
+  async listReviews(prNumber: string): Promise<GitHubReview[]> {
+    return await this.list<GitHubReview>(`/pulls/${prNumber}/reviews`);
+  }
+
+  /**
+   * Creates a review with a summary body and inline comments
+   * Not retried after a 5xx or timeout: GitHub may already have created the review, and a retry
+   * would post every inline comment twice
+   * @param prNumber - Pull request number
+   * @param commitId - Commit the comments refer to
+   * @param body - Summary body
+   * @param comments - Inline comments
+   * @returns Created review
+   */
+  async createReview(
+    prNumber: string,
+    commitId: string,
+    body: string,
+    comments: NewReviewComment[]
+  ): Promise<GitHubReview> {
+    return await this.request<GitHubReview>(`/pulls/${prNumber}/reviews`, "POST", {
+      commit_id: commitId,
+      event: "COMMENT",
+      body,
+      comments,
+    });
+  }
+
+  /**
+   * Replaces the summary body of a review
+   * @param prNumber - Pull request number
+   * @param reviewId - Review ID
+   * @param body - New body
+   */
+  async updateReview(prNumber: string, reviewId: number, body: string): Promise<void> {
+    await this.request(`/pulls/${prNumber}/reviews/${reviewId}`, "PUT", { body }, true);
+  }
+
+  /**
+   * Replaces the body of an inline review comment
+   * @param commentId - Comment ID
+   * @param body - New body
+   */
+  async updateReviewComment(commentId: number, body: string): Promise<void> {
+    await this.request(`/pulls/comments/${commentId}`, "PATCH", { body }, true);
+  }
+
+  /**
+   * Maps the first comment of each review thread to its thread
+   * @param prNumber - Pull request number
+   * @returns Threads by ID of their first comment
+   */
+  async getReviewThreads(prNumber: string): Promise<Map<number, GitHubReviewThread>> {
+    const threads = new Map<number, GitHubReviewThread>();
+    let cursor: string | null = null;
+    do {
+      const page: ReviewThreadsPage = await this.graphql<ReviewThreadsPage>(
+        REVIEW_THREADS_QUERY,
+        { owner: this.owner, repo: this.repo, number: Number(prNumber), cursor },
+        true
+      );
+      const reviewThreads = page.data?.repository?.pullRequest?.reviewThreads;
+      if (!reviewThreads) {
+        break;
+      }
+      for (const thread of reviewThreads.nodes) {
+        const commentId = thread.comments.nodes[0]?.databaseId;
+        if (commentId) {
+          threads.set(commentId, { id: thread.id, isResolved: thread.isResolved });
+        }
+      }
+      cursor = reviewThreads.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+    } while (cursor);
+    return threads;
+  }
+
+  /**
+   * Resolves or reopens a review thread
+   * @param threadId - GraphQL ID of the thread
+   * @param resolved - Whether the thread should be resolved
+   */
+  async setThreadResolved(threadId: string, resolved: boolean): Promise<void> {
+    const mutation = resolved ? "resolveReviewThread" : "unresolveReviewThread";
+    await this.graphql(
+      `mutation($threadId: ID!) { ${mutation}(input: { threadId: $threadId }) { thread { id } } }`,
+      { threadId }
+    );
+  }
+}
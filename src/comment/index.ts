@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+
+import { execSync } from "node:child_process";
+import chalk from "chalk";
+import { Command } from "commander";
+import dotenv from "dotenv";
+import { loadExportInput, resolveOutputDir } from "../export/export-formats.js";
+import { normalizeIssues } from "../export/normalize.js";
+import { parseUnifiedDiff } from "../git/changed-lines.js";
+import { getOutputPathPrefix } from "../git/repo-paths.js";
+import { formatHttpError } from "../http/http-errors.js";
+import { getSonarUiUrl } from "../report/report-model.js";
+import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import { loadConfiguration } from "../versioning/project-config.js";
+import { type CommentOptions, configureCommentCommand } from "./comment-options.js";
+import { GitHubReviewClient } from "./github-review-client.js";
+import { planReview, SUMMARY_MARKER, SUPERSEDED_MARKER, summaryBody } from "./review-plan.js";
+
+dotenv.config();
+
+/**
+ * Resolves the pull request to comment on
+ * Priority: --pr, then the PR issues.json was fetched for, then the PR of the current branch
+ * @param options - Comment command options
+ * @param fetchedPr - Pull request recorded in issues.json, if any
+ * @param extractor - Used for GitHub PR detection
+ * @param apiUrl - GitHub API base URL
+ * @returns Pull request number
+ */
+const resolvePullRequest = async (
+  options: CommentOptions,
+  fetchedPr: string | undefined,
+  extractor: SonarIssueExtractor,
+  apiUrl: string
+): Promise<string> => {
+  if (options.pr) {
+    if (fetchedPr && fetchedPr !== options.pr) {
+      console.warn(
+        chalk.yellow(`⚠️  issues.json was fetched for PR #${fetchedPr}, not PR #${options.pr}`)
+      );
+    }
+    return options.pr;
+  }
+  if (fetchedPr) {
+    return fetchedPr;
+  }
+
+  const branch = execSync("git branch --show-current", { encoding: "utf8" }).trim();
+  const detectedPr = options.prDetect ? await extractor.detectGitHubPrId(branch, apiUrl) : null;
+  if (!detectedPr) {
+    throw new Error("No pull request found: pass --pr or fetch the issues of a PR first");
+  }
+  console.warn(
+    chalk.yellow(
+      `⚠️  issues.json was not fetched for a PR; posting its issues on PR #${detectedPr} (branch ${branch})`
+    )
+  );
+  return detectedPr;
+};
+
+/**
+ * Posts the fetched issues as a review on the GitHub pull request
+ * Earlier sonarflow comments are updated, resolved or reopened instead of duplicated
+ * @param options - Comment command options
+ */
+const commentPullRequest = async (options: CommentOptions): Promise<void> => {
+  try {
+    const config = loadConfiguration();
+    if (config.gitProvider !== "github") {
+      throw new Error(
+        `sonarflow comment supports GitHub only (gitProvider is "${config.gitProvider}")`
+      );
+    }
+
+    const input = loadExportInput(resolveOutputDir(options.input));
+    const metadata = input.issues.sonarflow;
+    const findings = normalizeIssues(input, getOutputPathPrefix(input.issues));
+
+    const extractor = new SonarIssueExtractor(config);
+    const apiUrl = extractor.getGitHubApiUrl(config.githubApiUrl);
+    const { owner, repo } = extractor.getGitHubRepository();
+    const client = new GitHubReviewClient(apiUrl, owner, repo, extractor.getGitHubAuthHeaders());
+
+    const prNumber = await resolvePullRequest(options, metadata?.pullRequest, extractor, apiUrl);
+    console.log(chalk.blue(`🔍 Reviewing ${owner}/${repo}#${prNumber}...`));
+
+    const [headSha, diff, existingComments, reviews] = await Promise.all([
+      client.getHeadSha(prNumber),
+      client.getDiff(prNumber),
+      client.listReviewComments(prNumber),
+      client.listReviews(prNumber),
+    ]);
+
+    const plan = planReview(findings, existingComments, parseUnifiedDiff(diff), {
+      sonarUiUrl: getSonarUiUrl(config.sonarBaseUrl),
+      projectKey: config.sonarProjectKey || config.repoName,
+      pullRequest: prNumber,
+    });
+    const body = summaryBody(findings, plan, metadata?.source ?? `PR #${prNumber}`);
+
+    console.log(
+      chalk.blue(
+        `📊 ${plan.create.length} new, ${plan.update.length} updated, ${plan.resolve.length} resolved comment(s); ${plan.outsideDiff.length} finding(s) outside the diff`
+      )
+    );
+    if (options.dryRun) {
+      for (const comment of plan.create) {
+        console.log(chalk.gray(`  + ${comment.path}:${comment.line} ${comment.finding.rule}`));
+      }
+      for (const { comment } of plan.resolve) {
+        console.log(chalk.gray(`  ✓ ${comment.path}:${comment.line ?? "outdated"}`));
+      }
+      console.log(chalk.gray(`\n${body}`));
+      return;
+    }
+
+    for (const { comment, body: commentBody } of [...plan.update, ...plan.resolve]) {
+      await client.updateReviewComment(comment.id, commentBody);
+    }
+
+    // Resolve the threads of fixed findings and reopen those sonarflow resolved that are reported again
+    const toResolve = plan.resolve.map(({ comment }) => comment.id);
+    const toReopen = plan.reopen.map((comment) => comment.id);
+    if (toResolve.length > 0 || toReopen.length > 0) {
+      try {
+        const threads = await client.getReviewThreads(prNumber);
+        for (const [ids, resolved] of [
+          [toResolve, true],
+          [toReopen, false],
+        ] as const) {
+          for (const id of ids) {
+            const thread = threads.get(id);
+            if (thread && thread.isResolved !== resolved) {
+              await client.setThreadResolved(thread.id, resolved);
+            }
+          }
+        }
+      } catch (error) {
+        console.warn(
+          chalk.yellow(`⚠️  Could not update review thread states: ${formatHttpError(error)}`)
+        );
+      }
+    }
+
+    // Keep a single summary: edit the previous one, or replace it when new comments need a review
+    const previousSummaries = reviews.filter((review) => review.body?.startsWith(SUMMARY_MARKER));
+    const latestSummary = previousSummaries.at(-1);
+    if (latestSummary && plan.create.length === 0) {
+      await client.updateReview(prNumber, latestSummary.id, body);
+      console.log(chalk.green(`✅ Updated review summary on PR #${prNumber}`));
+    } else {
+      await client.createReview(
+        prNumber,
+        headSha,
+        body,
+        plan.create.map(({ finding: _finding, ...comment }) => comment)
+      );
+      for (const review of previousSummaries) {
+        await client.updateReview(
+          prNumber,
+          review.id,
+          `${SUPERSEDED_MARKER}\n_Superseded by a newer SonarQube review._`
+        );
+      }
+      console.log(
+        chalk.green(`✅ Posted review with ${plan.create.length} comment(s) on PR #${prNumber}`)
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ Error commenting on the pull request: ${formatHttpError(error)}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureCommentCommand(new Command("sonarflow comment"));
+program.parse(process.argv);
+
+await commentPullRequest(program.opts<CommentOptions>());
@@ -0,0 +1,226 @@
+import type { NormalizedIssue, NormalizedSeverity } from "../export/normalize.js";
+import type { ChangedLines } from "../git/changed-lines.js";
+import { getSonarFindingUrl } from "../report/report-model.js";
+import type { GitHubReviewComment, NewReviewComment } from "./github-review-client.js";
+
+/**
+ * Hidden marker identifying the sonarflow summary review
+ */
+export const SUMMARY_MARKER = "<!-- sonarflow:summary -->";
+
+/**
+ * Hidden marker of summary reviews replaced by a newer one
+ */
+export const SUPERSEDED_MARKER = "<!-- sonarflow:summary-superseded -->";
+
+/**
+ * First line of comments whose finding is no longer reported
+ */
+const RESOLVED_NOTE = "✅ **Resolved**: no longer reported by SonarQube.";
+
+/**
+ * Findings listed in the summary when they are outside the diff
+ */
+const MAX_SUMMARY_FINDINGS = 20;
+
+const SEVERITY_ICONS: Record<NormalizedSeverity, string> = {
+  blocker: "⛔",
+  critical: "🔴",
+  major: "🟠",
+  minor: "🟡",
+  info: "🔵",
+};
+
+/**
+ * Links of a finding back to the Sonar UI
+ */
+export interface FindingLinks {
+  /** Base URL of the Sonar UI */
+  sonarUiUrl: string;
+  /** Sonar project of the findings that do not name theirs */
+  projectKey: string;
+  pullRequest: string;
+}
+
+/**
+ * Changes needed to bring the PR review comments in line with the fetched findings
+ */
+export interface ReviewPlan {
+  /** Inline comments for findings without one */
+  create: Array<NewReviewComment & { finding: NormalizedIssue }>;
+  /** Existing comments whose text changed */
+  update: Array<{ comment: GitHubReviewComment; body: string }>;
+  /** Existing comments of findings that are still reported */
+  keep: GitHubReviewComment[];
+  /** Kept comments that sonarflow marked as resolved earlier, whose thread it reopens */
+  reopen: GitHubReviewComment[];
+  /** Existing comments of findings that are no longer reported, or that moved */
+  resolve: Array<{ comment: GitHubReviewComment; body: string }>;
+  /** Findings on lines that do not accept inline comments */
+  outsideDiff: NormalizedIssue[];
+}
+
+/**
+ * Hidden marker of the comment of a finding
+ * @param fingerprint - Stable fingerprint of the finding
+ * @returns HTML comment
+ */
+const findingMarker = (fingerprint: string): string => `<!-- sonarflow:${fingerprint} -->`;
+
+/**
+ * Extracts the finding fingerprint of a sonarflow comment
+ * @param body - Comment body
+ * @returns Fingerprint, or null for comments not written by sonarflow
+ */
+export const commentFingerprint = (body: string): string | null =>
+  body.match(/^<!-- sonarflow:([0-9a-f]{64}) -->/)?.[1] ?? null;
+
+/**
+ * Body of the inline comment of a finding
+ * @param finding - Issue or hotspot
+ * @param links - Sonar UI and project
+ * @returns Markdown body, starting with the finding marker
+ */
+export const findingCommentBody = (finding: NormalizedIssue, links: FindingLinks): string =>
+  [
+    findingMarker(finding.fingerprint),
+    `${SEVERITY_ICONS[finding.severity]} **${finding.severity.toUpperCase()}** \`${finding.rule}\`${finding.ruleName ? ` — ${finding.ruleName}` : ""}`,
+    "",
+    finding.message,
+    "",
+    `[View in SonarQube](${getSonarFindingUrl(links.sonarUiUrl, finding.project ?? links.projectKey, finding, { pullRequest: links.pullRequest })})`,
+  ].join("\n");
+
+/**
+ * Body of a comment whose finding is no longer reported at that location
+ * @param comment - Existing comment
+ * @returns Markdown body, keeping the marker and quoting the former text
+ */
+const resolvedCommentBody = (comment: GitHubReviewComment): string => {
+  const [marker, ...lines] = comment.body.split("\n");
+  return [marker, RESOLVED_NOTE, "", ...lines.map((line) => `> ${line}`.trimEnd())].join("\n");
+};
+
+/**
+ * Whether a line accepts inline comments
+ * @param commentable - Diff hunks by file path
+ * @param path - Repository-relative path
+ * @param line - Line number
+ * @returns True when the line is inside a hunk
+ */
+const isCommentable = (commentable: ChangedLines, path: string, line?: number): line is number =>
+  line !== undefined &&
+  (commentable.get(path) ?? []).some((range) => range.start <= line && line <= range.end);
+
+/**
+ * Matches the fetched findings with the comments of earlier runs
+ *
+ * A finding keeps its comment while it is reported on the same file and line (the text is
+ * refreshed when it changed); comments of findings that disappeared or moved are resolved,
+ * and findings without a comment get a new one when their line is part of the diff.
+ * @param findings - Fetched issues and hotspots
+ * @param existing - Inline comments already on the PR
+ * @param commentable - Diff hunks by file path
+ * @param links - Sonar UI and project
+ * @returns Review plan
+ */
+export const planReview = (
+  findings: NormalizedIssue[],
+  existing: GitHubReviewComment[],
+  commentable: ChangedLines,
+  links: FindingLinks
+): ReviewPlan => {
+  const plan: ReviewPlan = {
+    create: [],
+    update: [],
+    keep: [],
+    reopen: [],
+    resolve: [],
+    outsideDiff: [],
+  };
+  const ownComments = new Map<string, GitHubReviewComment>();
+  for (const comment of existing) {
+    const fingerprint = commentFingerprint(comment.body);
+    if (fingerprint) {
+      ownComments.set(fingerprint, comment);
+    }
+  }
+
+  for (const finding of findings) {
+    const body = findingCommentBody(finding, links);
+    const comment = ownComments.get(finding.fingerprint);
+    if (comment && comment.path === finding.path && comment.line === finding.line) {
+      ownComments.delete(finding.fingerprint);
+      plan.keep.push(comment);
+      // Threads resolved by hand stay resolved
+      if (comment.body.includes(RESOLVED_NOTE)) {
+        plan.reopen.push(comment);
+      }
+      if (comment.body !== body) {
+        plan.update.push({ comment, body });
+      }
+    } else if (isCommentable(commentable, finding.path, finding.line)) {
+      plan.create.push({ path: finding.path, line: finding.line, side: "RIGHT", body, finding });
+    } else {
+      plan.outsideDiff.push(finding);
+    }
+  }
+
+  for (const comment of ownComments.values()) {
+    if (!comment.body.includes(RESOLVED_NOTE)) {
+      plan.resolve.push({ comment, body: resolvedCommentBody(comment) });
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Body of the summary review
+ * @param findings - Fetched issues and hotspots
+ * @param plan - Review plan
+ * @param source - Description of the analyzed PR
+ * @returns Markdown body, starting with the summary marker
+ */
+export const summaryBody = (
+  findings: NormalizedIssue[],
+  plan: ReviewPlan,
+  source: string
+): string => {
+  const lines = [SUMMARY_MARKER, "## SonarQube analysis", "", `**Source:** ${source}`, ""];
+
+  if (findings.length === 0) {
+    lines.push("✅ No issues or security hotspots reported.");
+  } else {
+    const counts = (Object.keys(SEVERITY_ICONS) as NormalizedSeverity[])
+      .map((severity) => ({
+        severity,
+        count: findings.filter((finding) => finding.severity === severity).length,
+      }))
+      .filter(({ count }) => count > 0)
+      .map(({ severity, count }) => `${SEVERITY_ICONS[severity]} ${count} ${severity}`);
+    lines.push(`**${findings.length} finding(s):** ${counts.join(", ")}`);
+  }
+
+  const inline = plan.create.length + plan.keep.length;
+  lines.push(
+    "",
+    `${inline} inline comment(s) (${plan.create.length} new), ${plan.resolve.length} resolved since the previous run.`
+  );
+
+  if (plan.outsideDiff.length > 0) {
+    lines.push("", `### Outside the diff (${plan.outsideDiff.length})`, "");
+    for (const finding of plan.outsideDiff.slice(0, MAX_SUMMARY_FINDINGS)) {
+      const location =
+        finding.line !== undefined ? `${finding.path}:${finding.line}` : finding.path;
+      lines.push(
+        `- ${SEVERITY_ICONS[finding.severity]} \`${location}\` \`${finding.rule}\`: ${finding.message}`
+      );
+    }
+    if (plan.outsideDiff.length > MAX_SUMMARY_FINDINGS) {
+      lines.push(`- ...and ${plan.outsideDiff.length - MAX_SUMMARY_FINDINGS} more`);
+    }
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,74 @@
+import type { Command } from "commander";
+
+/**
+ * Options of `sonarflow config validate`, as parsed by commander
+ */
+export interface ConfigValidateOptions {
+  /** Validate only this file, instead of the effective configuration */
+  file?: string;
+}
+
+/**
+ * Options of `sonarflow config get` and `sonarflow config list`, as parsed by commander
+ */
+export interface ConfigShowOptions {
+  /** Print where each value comes from */
+  showOrigin?: boolean;
+}
+
+/**
+ * Options of `sonarflow config set`, as parsed by commander
+ */
+export interface ConfigSetOptions {
+  /** Write to the user-level configuration instead of .sonarflowrc.json */
+  global?: boolean;
+}
+
+/**
+ * Declares the config command and its validate, get, set and list subcommands
+ * Shared by the sonarflow CLI (help and validation) and the config script (parsing);
+ * callers attach an action to each subcommand
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureConfigCommand = (command: Command): Command => {
+  command.description(
+    "Inspect the sonarflow configuration, merged from ~/.config/sonarflow/config.json, .sonarflowrc.json, SONARFLOW_* variables and CLI flags"
+  );
+
+  command
+    .command("validate")
+    .description(
+      "Check the effective configuration against the configuration schema, pointing at each offending key"
+    )
+    .option(
+      "-f, --file <path>",
+      "Validate only this file (e.g. .sonarflowrc.json), without the other layers"
+    );
+
+  command
+    .command("get")
+    .description("Print the effective value of a setting")
+    .argument("<key>", "Setting key (e.g. outputPath)")
+    .option("--show-origin", "Also print where the value comes from");
+
+  command
+    .command("set")
+    .description("Write a setting to .sonarflowrc.json, or to the user-level configuration")
+    .argument("<key>", "Setting key (e.g. outputPath)")
+    .argument(
+      "<value>",
+      "Value; true/false for booleans, comma-separated or JSON for lists (e.g. main,develop)"
+    )
+    .option(
+      "-g, --global",
+      "Write to the user-level configuration (~/.config/sonarflow/config.json)"
+    );
+
+  command
+    .command("list")
+    .description("Print every effective setting")
+    .option("--show-origin", "Also print where each value comes from");
+
+  return command;
+};
@@ -0,0 +1,261 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { type ConfigProblem, settingJsonSchema, sonarflowConfigSchema } from "./config-schema.js";
+
+/**
+ * Name of the project configuration file
+ */
+export const PROJECT_CONFIG_FILE = ".sonarflowrc.json";
+
+/**
+ * Prefix of the environment variables overriding settings (e.g. SONARFLOW_OUTPUT_PATH)
+ */
+const ENV_PREFIX = "SONARFLOW_";
+
+/**
+ * Environment variables read before this resolver existed, kept as fallbacks for their setting
+ * They rank below the configuration files, as they always did
+ */
+const LEGACY_ENV_VARS: Record<string, string> = {
+  githubOwner: "GITHUB_OWNER",
+  githubRepo: "GITHUB_REPO",
+  gitEmail: "GIT_EMAIL",
+  sonarBaseUrl: "SONAR_BASE_URL",
+  githubApiUrl: "GITHUB_API_URL",
+  gitlabBaseUrl: "GITLAB_BASE_URL",
+  bitbucketBaseUrl: "BITBUCKET_BASE_URL",
+};
+
+/**
+ * Configuration layers, from lowest to highest precedence
+ */
+export type ConfigLayer = "default" | "legacy-env" | "user" | "project" | "env" | "cli";
+
+/**
+ * Where the effective value of a setting comes from
+ */
+export interface SettingOrigin {
+  layer: ConfigLayer;
+  /** File, environment variable or flag that set the value */
+  source: string;
+}
+
+/**
+ * Settings passed on the command line, with the flag that set each of them
+ */
+export type ConfigOverrides = Record<string, { value: unknown; flag: string } | undefined>;
+
+/**
+ * Merged configuration, with the origin of each setting
+ */
+export interface ResolvedConfig {
+  config: Record<string, unknown>;
+  origins: Record<string, SettingOrigin>;
+  /** Path of the project configuration file, or null when there is none */
+  projectPath: string | null;
+}
+
+/**
+ * Kind of value a setting holds, used to parse it from a string
+ */
+type SettingKind = "string" | "boolean" | "list" | "json";
+
+/**
+ * Path of the user-level configuration file
+ * @returns $XDG_CONFIG_HOME/sonarflow/config.json, or ~/.config/sonarflow/config.json
+ */
+export const userConfigPath = (): string =>
+  path.join(
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+    "sonarflow",
+    "config.json"
+  );
+
+/**
+ * Keys of the settings that can be read or set, in schema order
+ * @returns Setting keys
+ */
+export const settingKeys = (): string[] =>
+  Object.keys(sonarflowConfigSchema.shape).filter((key) => key !== "$schema");
+
+/**
+ * Environment variable overriding a setting
+ * @param key - Setting key (e.g. outputPath)
+ * @returns Variable name (e.g. SONARFLOW_OUTPUT_PATH)
+ */
+export const settingEnvVar = (key: string): string =>
+  `${ENV_PREFIX}${key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()}`;
+
+/**
+ * Kind of value of a setting, read from its JSON schema
+ * @param key - Setting key
+ * @returns Kind of value
+ */
+const settingKind = (key: string): SettingKind => {
+  const schema = settingJsonSchema(key);
+  if (schema?.type === "boolean") {
+    return "boolean";
+  }
+  if (schema?.type === "array") {
+    return (schema.items as { type?: string } | undefined)?.type === "object" ? "json" : "list";
+  }
+  return "string";
+};
+
+/**
+ * Parses a setting from a string (environment variable or `config set` argument)
+ * Booleans accept true/false/1/0, lists are comma-separated, object lists are JSON.
+ * Unparseable values are returned as-is, so validation reports them against their key
+ * @param key - Setting key
+ * @param raw - String value
+ * @returns Parsed value
+ */
+export const parseSettingValue = (key: string, raw: string): unknown => {
+  switch (settingKind(key)) {
+    case "boolean":
+      if (["true", "1"].includes(raw.toLowerCase())) return true;
+      if (["false", "0"].includes(raw.toLowerCase())) return false;
+      return raw;
+    case "list":
+      return raw.trim().startsWith("[")
+        ? parseJson(raw)
+        : raw
+            .split(",")
+            .map((item) => item.trim())
+            .filter(Boolean);
+    case "json":
+      return parseJson(raw);
+    default:
+      return raw;
+  }
+};
+
+/**
+ * Parses JSON, keeping the raw string when it is not valid JSON
+ * @param raw - String value
+ * @returns Parsed value, or the raw string
+ */
+const parseJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Reads a JSON configuration file
+ * @param filePath - File path
+ * @returns Settings, or null when the file does not exist
+ * @throws Error when the file is not a JSON object
+ */
+export const readConfigFile = (filePath: string): Record<string, unknown> | null => {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`${filePath} is not valid JSON: ${msg}`);
+  }
+  if (content === null || typeof content !== "object" || Array.isArray(content)) {
+    throw new Error(`${filePath} must contain a JSON object`);
+  }
+  return content as Record<string, unknown>;
+};
+
+/**
+ * Resolves the effective configuration by merging, in order of precedence:
+ * schema defaults, legacy environment variables (SONAR_BASE_URL, ...), the user-level
+ * configuration, the project .sonarflowrc.json, SONARFLOW_* environment variables and CLI flags
+ * Settings are merged per key: a layer replaces whole values, lists included
+ * @param directory - Directory containing .sonarflowrc.json (default: working directory)
+ * @param overrides - Settings passed on the command line
+ * @returns Merged configuration, with the origin of each setting
+ */
+export const resolveConfig = (
+  directory = process.cwd(),
+  overrides: ConfigOverrides = {}
+): ResolvedConfig => {
+  const resolved: ResolvedConfig = { config: {}, origins: {}, projectPath: null };
+  const apply = (key: string, value: unknown, origin: SettingOrigin): void => {
+    if (value === undefined) {
+      return;
+    }
+    resolved.config[key] = value;
+    resolved.origins[key] = origin;
+  };
+
+  for (const key of settingKeys()) {
+    apply(key, settingJsonSchema(key)?.default, { layer: "default", source: "default" });
+  }
+
+  for (const [key, envVar] of Object.entries(LEGACY_ENV_VARS)) {
+    apply(key, process.env[envVar] || undefined, { layer: "legacy-env", source: envVar });
+  }
+
+  const userPath = userConfigPath();
+  for (const [key, value] of Object.entries(readConfigFile(userPath) ?? {})) {
+    apply(key, value, { layer: "user", source: userPath });
+  }
+
+  const projectPath = path.join(directory, PROJECT_CONFIG_FILE);
+  const project = readConfigFile(projectPath);
+  if (project) {
+    resolved.projectPath = projectPath;
+    for (const [key, value] of Object.entries(project)) {
+      apply(key, value, { layer: "project", source: projectPath });
+    }
+  }
+
+  for (const key of settingKeys()) {
+    const envVar = settingEnvVar(key);
+    const raw = process.env[envVar];
+    if (raw !== undefined && raw !== "") {
+      apply(key, parseSettingValue(key, raw), { layer: "env", source: envVar });
+    }
+  }
+
+  for (const [key, override] of Object.entries(overrides)) {
+    apply(key, override?.value, { layer: "cli", source: override?.flag ?? "" });
+  }
+
+  return resolved;
+};
+
+/**
+ * Describes the origin of a setting for display
+ * @param origin - Setting origin
+ * @returns Layer and source (e.g. "env SONARFLOW_OUTPUT_PATH")
+ */
+export const formatOrigin = (origin: SettingOrigin): string => {
+  if (origin.layer === "default") {
+    return "default";
+  }
+  let source = origin.source;
+  if (path.isAbsolute(source)) {
+    const relative = path.relative(process.cwd(), source);
+    source = relative.startsWith("..") ? source.replace(os.homedir(), "~") : relative;
+  }
+  return `${origin.layer} ${source}`;
+};
+
+/**
+ * Names the layer that set the key of each problem, when it is not .sonarflowrc.json
+ * @param problems - Problems found in the resolved configuration
+ * @param origins - Origins of the resolved settings
+ * @returns Problems, e.g. "must be one of ... (from env SONARFLOW_SONAR_MODE)"
+ */
+export const locateConfigProblems = (
+  problems: ConfigProblem[],
+  origins: Record<string, SettingOrigin>
+): ConfigProblem[] =>
+  problems.map((problem) => {
+    const origin = origins[problem.key.split(".")[0]];
+    return origin && origin.layer !== "project"
+      ? { ...problem, message: `${problem.message} (from ${formatOrigin(origin)})` }
+      : problem;
+  });
@@ -0,0 +1,425 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * URL of the published JSON schema of a sonarflow version
+ * @param version - sonarflow version
+ * @returns Raw GitHub URL of schemas/sonarflowrc.schema.json at that tag
+ */
+export const configSchemaUrl = (version: string): string =>
+  `https://raw.githubusercontent.com/bitrockteam/sonarflow/v${version}/schemas/sonarflowrc.schema.json`;
+
+/**
+ * Base URL setting: http(s) only
+ * @param description - Field description
+ * @returns URL schema
+ */
+const httpUrl = (description: string) =>
+  z
+    .string()
+    .url()
+    .regex(/^https?:\/\//, "Invalid URL: only http and https are supported")
+    .describe(description);
+
+/**
+ * Settings required by another setting, checked by validateConfig and emitted as `allOf` if/then rules
+ */
+const CONDITIONAL_REQUIREMENTS: Array<{
+  key: "sonarMode" | "gitProvider" | "bitbucketFlavor";
+  value: string;
+  required: string[];
+  /** How to fix a missing setting */
+  hint: string;
+}> = [
+  {
+    key: "sonarMode",
+    value: "standard",
+    required: ["sonarOrganization"],
+    hint: 'SonarCloud (sonarMode "standard") needs the organization key shown at https://sonarcloud.io/account/organizations; for a self-hosted SonarQube set sonarMode to "custom" and sonarBaseUrl instead',
+  },
+  {
+    key: "sonarMode",
+    value: "custom",
+    required: ["sonarBaseUrl"],
+    hint: 'set sonarBaseUrl to your SonarQube server (e.g. "https://sonarqube.mycompany.com"), or set sonarMode to "standard" for SonarCloud',
+  },
+  {
+    key: "gitProvider",
+    value: "azure-devops",
+    required: ["gitOrganization", "azureDevOpsProject"],
+    hint: "Azure DevOps repositories live in dev.azure.com/<gitOrganization>/<azureDevOpsProject>",
+  },
+  {
+    key: "bitbucketFlavor",
+    value: "server",
+    required: ["bitbucketBaseUrl"],
+    hint: 'set bitbucketBaseUrl to your Bitbucket Server / Data Center (e.g. "https://bitbucket.mycompany.com"), or remove bitbucketFlavor for bitbucket.org',
+  },
+];
+
+/**
+ * Sonar project of a monorepo folder
+ */
+const projectEntrySchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .describe("Folder of the project, relative to .sonarflowrc.json (e.g. 'apps/web')"),
+    sonarProjectKey: z.string().min(1).describe("Sonar project key of the folder"),
+    sonarOrganization: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Sonar organization (default: the top-level sonarOrganization)"),
+  })
+  .strict();
+
+/**
+ * Schema of .sonarflowrc.json
+ * Validates the configuration at runtime (loadConfiguration, `sonarflow config validate`)
+ * and generates schemas/sonarflowrc.schema.json
+ */
+export const sonarflowConfigSchema = z
+  .object({
+    $schema: z
+      .string()
+      .regex(
+        /^https:\/\/raw\.githubusercontent\.com\/bitrockteam\/sonarflow\/v[\d.]+(-[\w.-]+)?\/schemas\/sonarflowrc\.schema\.json$/
+      )
+      .optional()
+      .describe("JSON schema reference for validation"),
+    repoName: z.string().min(1).describe("Repository name"),
+    gitProvider: z
+      .enum(["github", "bitbucket", "gitlab", "azure-devops"])
+      .describe("Git provider platform"),
+    repositoryVisibility: z.enum(["private", "public"]).describe("Repository visibility setting"),
+    gitOrganization: z
+      .string()
+      .optional()
+      .describe(
+        "Git organization name (required for Bitbucket, GitLab, Azure DevOps or private repositories). For GitLab, the full group path (e.g. group/subgroup); for Azure DevOps, the organization"
+      ),
+    githubOwner: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Owner of the GitHub repository, for PR detection and comments (default: gitOrganization)"
+      ),
+    githubRepo: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Name of the GitHub repository, for PR detection and comments (default: repoName)"),
+    gitEmail: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Email of the Bitbucket Cloud account of GIT_TOKEN (default: git config user.email)"
+      ),
+    githubApiUrl: httpUrl(
+      "GitHub API base URL (default: 'https://api.github.com'); set it for GitHub Enterprise Server, e.g. 'https://ghe.mycompany.com/api/v3'"
+    ).optional(),
+    bitbucketFlavor: z
+      .enum(["cloud", "server"])
+      .default("cloud")
+      .describe(
+        "Bitbucket flavor: 'cloud' for bitbucket.org (default), 'server' for self-hosted Bitbucket Server / Data Center"
+      ),
+    bitbucketBaseUrl: httpUrl(
+      "Base URL of the Bitbucket Server / Data Center instance (required when bitbucketFlavor is 'server')"
+    ).optional(),
+    gitlabBaseUrl: httpUrl(
+      "Base URL of the GitLab instance (default: 'https://gitlab.com'); set it for self-managed GitLab"
+    ).optional(),
+    azureDevOpsProject: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Azure DevOps project containing the repository (required when gitProvider is 'azure-devops')"
+      ),
+    azureDevOpsRepository: z
+      .string()
+      .optional()
+      .describe("Azure DevOps repository name (default: repoName)"),
+    sonarOrganization: z
+      .string()
+      .optional()
+      .describe("Sonar organization (required for standard mode)"),
+    sonarProjectKey: z.string().min(1).describe("Sonar project key (project name)"),
+    sonarComponentKeys: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Components searched on SonarCloud, comma-separated (used with publicSonar and sonarOrganization)"
+      ),
+    sonarMode: z
+      .enum(["standard", "custom"])
+      .describe("Sonar mode: 'standard' for SonarCloud, 'custom' for self-hosted SonarQube"),
+    sonarBaseUrl: httpUrl(
+      "Base URL for custom SonarQube instance (required when sonarMode is 'custom')"
+    ).optional(),
+    publicSonar: z
+      .boolean()
+      .default(false)
+      .describe("Whether Sonar instance is public (default: false)"),
+    timeZone: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Time zone of the issue search dates on self-hosted SonarQube (e.g. 'Europe/Rome')"
+      ),
+    aiEditor: z
+      .enum(["cursor", "copilot (vscode)", "windsurf", "other"])
+      .describe("AI editor being used"),
+    rulesFlavor: z
+      .enum(["safe", "vibe-coder", "yolo"])
+      .describe("Rules flavor for AI code generation"),
+    rulePath: z.string().min(1).describe("Path to the rule file (relative to project root)"),
+    outputPath: z
+      .string()
+      .optional()
+      .describe("Output path for sonar issues (default: '.sonarflow/')"),
+    fallbackBranches: z
+      .array(z.string().min(1))
+      .refine((branches) => new Set(branches).size === branches.length, "Branches must be unique")
+      .optional()
+      .describe(
+        "Branches tried in order when the current branch has no issues. Defaults to the main branch of the Sonar project"
+      ),
+    projects: z
+      .array(projectEntrySchema)
+      .min(1)
+      .optional()
+      .describe("Monorepos: one Sonar project per folder, fetched together"),
+  })
+  .strict();
+
+/**
+ * Annotations with no zod counterpart, added to the JSON schema of a setting
+ */
+const JSON_SCHEMA_ANNOTATIONS: Record<string, Record<string, unknown>> = {
+  fallbackBranches: { uniqueItems: true },
+};
+
+/**
+ * JSON schema of a configuration file, as written by users: settings with a default are optional
+ */
+const configJsonSchema = (() => {
+  const schema = zodToJsonSchema(sonarflowConfigSchema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+    effectStrategy: "input",
+  }) as Record<string, unknown> & { properties: Record<string, Record<string, unknown>> };
+  for (const [key, annotations] of Object.entries(JSON_SCHEMA_ANNOTATIONS)) {
+    Object.assign(schema.properties[key], annotations);
+  }
+  return schema;
+})();
+
+/**
+ * JSON schema of a setting, e.g. to read its type or default value
+ * @param key - Setting key
+ * @returns JSON schema of the value, or undefined for unknown keys
+ */
+export const settingJsonSchema = (key: string): Record<string, unknown> | undefined =>
+  Object.hasOwn(configJsonSchema.properties, key) ? configJsonSchema.properties[key] : undefined;
+
+/**
+ * Problem found in a configuration, with the offending key
+ */
+export interface ConfigProblem {
+  /** Dotted path of the key (e.g. projects.0.path), "" for the whole file */
+  key: string;
+  message: string;
+}
+
+/**
+ * Result of a configuration validation
+ */
+export interface ConfigValidation {
+  /** Problems that make the configuration unusable */
+  errors: ConfigProblem[];
+  /** Keys sonarflow does not know, usually typos */
+  unknownKeys: ConfigProblem[];
+}
+
+/**
+ * Edit distance between two keys, to suggest the intended one
+ * @param a - First key
+ * @param b - Second key
+ * @returns Levenshtein distance (case-insensitive)
+ */
+const editDistance = (a: string, b: string): number => {
+  const source = a.toLowerCase();
+  const target = b.toLowerCase();
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[target.length];
+};
+
+/**
+ * Closest known key (or allowed value) to an unknown one
+ * @param key - Unknown key or value
+ * @param known - Keys or values accepted there
+ * @returns Suggestion, or null when none is close enough
+ */
+const suggestKey = (key: string, known: string[]): string | null => {
+  const [best] = known
+    .map((candidate) => ({ candidate, distance: editDistance(key, candidate) }))
+    .sort((a, b) => a.distance - b.distance);
+  return best && best.distance <= Math.max(2, Math.floor(key.length / 4)) ? best.candidate : null;
+};
+
+/**
+ * Reads the value at a path of the raw configuration
+ * @param config - Raw configuration
+ * @param path - Issue path
+ * @returns Value, or undefined when missing
+ */
+const valueAt = (config: unknown, path: PropertyKey[]): unknown =>
+  path.reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === "object"
+        ? (value as Record<PropertyKey, unknown>)[segment]
+        : undefined,
+    config
+  );
+
+/**
+ * Describes a schema issue for a user
+ * @param issue - zod issue
+ * @param value - Value at the path of the issue
+ * @returns Message, with the allowed values for enums
+ */
+const describeIssue = (issue: z.ZodIssue, value: unknown): string => {
+  if (issue.code === "invalid_type" && value === undefined) {
+    return "is required";
+  }
+  if (issue.code === "invalid_enum_value") {
+    const suggestion =
+      typeof value === "string" ? suggestKey(value, issue.options.map(String)) : null;
+    return `must be one of ${issue.options.map((allowed) => JSON.stringify(allowed)).join(", ")}, got ${JSON.stringify(value)}${suggestion ? `, did you mean "${suggestion}"?` : ""}`;
+  }
+  return issue.message;
+};
+
+/**
+ * Validates a parsed .sonarflowrc.json against the configuration schema
+ * @param config - Parsed JSON content
+ * @returns Errors and unknown keys, each pointing at the offending key
+ */
+export const validateConfig = (config: unknown): ConfigValidation => {
+  const validation: ConfigValidation = { errors: [], unknownKeys: [] };
+  const result = sonarflowConfigSchema.safeParse(config);
+  for (const issue of result.error?.issues ?? []) {
+    const key = issue.path.map(String).join(".");
+    if (issue.code === "unrecognized_keys") {
+      const known =
+        issue.path.length === 0
+          ? Object.keys(sonarflowConfigSchema.shape)
+          : Object.keys(projectEntrySchema.shape);
+      for (const unknownKey of issue.keys) {
+        const suggestion = suggestKey(unknownKey, known);
+        validation.unknownKeys.push({
+          key: [...issue.path.map(String), unknownKey].join("."),
+          message: suggestion ? `unknown key, did you mean "${suggestion}"?` : "unknown key",
+        });
+      }
+    } else {
+      validation.errors.push({ key, message: describeIssue(issue, valueAt(config, issue.path)) });
+    }
+  }
+
+  // Checked apart from the schema, so they are reported along with other problems
+  for (const rule of CONDITIONAL_REQUIREMENTS) {
+    if (valueAt(config, [rule.key]) !== rule.value) {
+      continue;
+    }
+    for (const key of rule.required) {
+      const value = valueAt(config, [key]);
+      if (value === undefined || value === "") {
+        validation.errors = validation.errors.filter((problem) => problem.key !== key);
+        validation.errors.push({
+          key,
+          message: `is required when ${rule.key} is "${rule.value}": ${rule.hint}`,
+        });
+      }
+    }
+  }
+  return validation;
+};
+
+/**
+ * Validates a single setting, e.g. before writing it with `sonarflow config set`
+ * Requirements between settings are left to validateConfig
+ * @param key - Setting key
+ * @param value - Parsed value
+ * @returns Problems with the key or the value (empty when valid)
+ */
+export const validateSetting = (key: string, value: unknown): ConfigProblem[] => {
+  const shape: Record<string, z.ZodTypeAny> = sonarflowConfigSchema.shape;
+  if (!Object.hasOwn(shape, key)) {
+    const suggestion = suggestKey(key, Object.keys(shape));
+    return [
+      { key, message: suggestion ? `unknown key, did you mean "${suggestion}"?` : "unknown key" },
+    ];
+  }
+  const result = shape[key].safeParse(value);
+  return (result.error?.issues ?? []).map((issue) => ({
+    key: [key, ...issue.path.map(String)].join("."),
+    message: describeIssue(issue, valueAt(value, issue.path)),
+  }));
+};
+
+/**
+ * Formats configuration problems, one per line
+ * @param problems - Errors or unknown keys
+ * @returns Indented list
+ */
+export const formatConfigProblems = (problems: ConfigProblem[]): string =>
+  problems.map((problem) => `  - ${problem.key || "(root)"}: ${problem.message}`).join("\n");
+
+/**
+ * Generates the JSON schema of .sonarflowrc.json
+ * @param version - sonarflow version, used in `$id`
+ * @returns JSON schema (draft-07)
+ */
+export const buildConfigJsonSchema = (version: string): Record<string, unknown> => {
+  const { $schema, ...schema } = configJsonSchema;
+  return {
+    $schema,
+    $id: configSchemaUrl(version),
+    title: "Sonarflow Configuration Schema",
+    description: "Schema for .sonarflowrc.json configuration file",
+    allOf: CONDITIONAL_REQUIREMENTS.map((rule) => ({
+      if: { properties: { [rule.key]: { const: rule.value } }, required: [rule.key] },
+      // biome-ignore lint/suspicious/noThenProperty: JSON schema if/then keyword, never awaited
+      then: {
+        required: rule.required,
+        properties: Object.fromEntries(
+          rule.required.map((key) => [
+            key,
+            { minLength: 1, description: `${key} is required when ${rule.key} is '${rule.value}'` },
+          ])
+        ),
+      },
+    })),
+    ...schema,
+  };
+};
@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import dotenv from "dotenv";
+import {
+  type ConfigSetOptions,
+  type ConfigShowOptions,
+  type ConfigValidateOptions,
+  configureConfigCommand,
+} from "./config-options.js";
+import {
+  formatOrigin,
+  locateConfigProblems,
+  PROJECT_CONFIG_FILE,
+  parseSettingValue,
+  readConfigFile,
+  resolveConfig,
+  type SettingOrigin,
+  settingKeys,
+  userConfigPath,
+} from "./config-resolver.js";
+import { formatConfigProblems, validateConfig, validateSetting } from "./config-schema.js";
+
+dotenv.config();
+
+/**
+ * Runs a config subcommand, reporting failures and exiting with code 1
+ * @param label - Action, used in the error message
+ * @param action - Subcommand implementation
+ */
+const run = (label: string, action: () => void): void => {
+  try {
+    action();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error ${label}: ${msg}`));
+    process.exit(1);
+  }
+};
+
+/**
+ * Formats a setting value for display
+ * @param value - Setting value
+ * @returns Strings as-is, other values as JSON
+ */
+const formatValue = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value);
+
+/**
+ * Formats a setting for display, git config style
+ * @param key - Setting key
+ * @param value - Setting value
+ * @param origin - Where the value comes from, printed first when given
+ * @returns key=value, prefixed with the origin
+ */
+const formatSetting = (key: string, value: unknown, origin?: SettingOrigin): string =>
+  origin
+    ? `${chalk.gray(formatOrigin(origin))}\t${key}=${formatValue(value)}`
+    : `${key}=${formatValue(value)}`;
+
+/**
+ * Validates the effective configuration, as commands load it, and reports every problem
+ * With --file, validates only that file. Unknown keys are reported as errors here, as they
+ * are usually typos
+ * @param options - Validate command options
+ */
+const validateConfiguration = (options: ConfigValidateOptions): void => {
+  const label = options.file ?? "The effective configuration";
+  let config: Record<string, unknown> | null;
+  let origins: Record<string, SettingOrigin> = {};
+  if (options.file) {
+    config = readConfigFile(path.resolve(options.file));
+  } else {
+    const resolved = resolveConfig();
+    config = resolved.projectPath ? resolved.config : null;
+    origins = resolved.origins;
+  }
+  if (!config) {
+    throw new Error(`Configuration file not found: ${options.file ?? PROJECT_CONFIG_FILE}`);
+  }
+
+  const { errors, unknownKeys } = validateConfig(config);
+  // Keys set outside .sonarflowrc.json are reported with the layer that set them
+  const problems = locateConfigProblems([...errors, ...unknownKeys], origins);
+  if (problems.length > 0) {
+    throw new Error(
+      `${label} has ${problems.length} problem(s):\n${formatConfigProblems(problems)}`
+    );
+  }
+  console.log(chalk.green(`✅ ${label} is valid`));
+};
+
+/**
+ * Prints the effective value of a setting
+ * Exits with code 1 when the setting is not set by any layer
+ * @param key - Setting key
+ * @param options - Get command options
+ */
+const getSetting = (key: string, options: ConfigShowOptions): void => {
+  const { config, origins } = resolveConfig();
+  if (!(key in config)) {
+    process.exit(1);
+  }
+  console.log(formatSetting(key, config[key], options.showOrigin ? origins[key] : undefined));
+};
+
+/**
+ * Writes a setting to .sonarflowrc.json, or to the user-level configuration with --global
+ * @param key - Setting key
+ * @param raw - Value, as passed on the command line
+ * @param options - Set command options
+ */
+const setSetting = (key: string, raw: string, options: ConfigSetOptions): void => {
+  const value = parseSettingValue(key, raw);
+  const problems = validateSetting(key, value);
+  if (problems.length > 0) {
+    throw new Error(`Invalid setting:\n${formatConfigProblems(problems)}`);
+  }
+
+  const filePath = options.global
+    ? userConfigPath()
+    : path.join(process.cwd(), PROJECT_CONFIG_FILE);
+  const settings = readConfigFile(filePath);
+  if (!settings && !options.global) {
+    throw new Error(
+      `Configuration file not found: ${PROJECT_CONFIG_FILE}. Run 'sonarflow init', or pass --global`
+    );
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify({ ...settings, [key]: value }, null, 2)}\n`, "utf8");
+  const target = options.global ? `the user configuration (${filePath})` : PROJECT_CONFIG_FILE;
+  console.log(chalk.green(`✅ Set ${formatSetting(key, value)} in ${target}`));
+};
+
+/**
+ * Prints every effective setting, in schema order
+ * @param options - List command options
+ */
+const listSettings = (options: ConfigShowOptions): void => {
+  const { config, origins } = resolveConfig();
+  // Unknown keys last, so typos stand out
+  const keys = [...new Set([...settingKeys(), ...Object.keys(config)])];
+  for (const key of keys.filter((candidate) => candidate in config && candidate !== "$schema")) {
+    console.log(formatSetting(key, config[key], options.showOrigin ? origins[key] : undefined));
+  }
+};
+
+// Parse command line arguments
+const program = configureConfigCommand(new Command("sonarflow config"));
+const actions: Record<string, Parameters<Command["action"]>[0]> = {
+  validate: (options: ConfigValidateOptions) =>
+    run("validating configuration", () => validateConfiguration(options)),
+  get: (key: string, options: ConfigShowOptions) =>
+    run("reading configuration", () => getSetting(key, options)),
+  set: (key: string, value: string, options: ConfigSetOptions) =>
+    run("writing configuration", () => setSetting(key, value, options)),
+  list: (options: ConfigShowOptions) => run("reading configuration", () => listSettings(options)),
+};
+for (const subcommand of program.commands) {
+  subcommand.action(actions[subcommand.name()]);
+}
+await program.parseAsync(process.argv);
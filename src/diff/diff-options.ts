@@ -0,0 +1,22 @@
+import type { Command } from "commander";
+
+/**
+ * Options of the diff command, as parsed by commander
+ */
+export interface DiffOptions {
+  /** Output file (default: diff.json in the fetch output directory) */
+  output?: string;
+}
+
+/**
+ * Declares arguments and options of the diff command
+ * Shared by the sonarflow CLI (help and validation) and the diff script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureDiffCommand = (command: Command): Command =>
+  command
+    .description("Compare two issues.json snapshots (new, fixed, moved and unchanged issues)")
+    .argument("<old>", "Older issues.json, or a directory containing one")
+    .argument("<new>", "Newer issues.json, or a directory containing one")
+    .option("-o, --output <file>", "Output file (default: diff.json in outputPath or .sonarflow/)");
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import { resolveOutputDir } from "../export/export-formats.js";
+import { configureDiffCommand, type DiffOptions } from "./diff-options.js";
+import { diffSnapshots, printDiffSummary, readIssuesSnapshot } from "./snapshot-diff.js";
+
+/**
+ * Compares two snapshots and writes diff.json
+ * @param oldPath - Older snapshot
+ * @param newPath - Newer snapshot
+ * @param options - Diff command options
+ */
+const compareSnapshots = (oldPath: string, newPath: string, options: DiffOptions): void => {
+  try {
+    const diff = diffSnapshots(readIssuesSnapshot(oldPath), readIssuesSnapshot(newPath));
+
+    const filePath = options.output
+      ? path.resolve(options.output)
+      : path.join(resolveOutputDir(), "diff.json");
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(diff, null, 2));
+
+    printDiffSummary(diff, `Changes from ${oldPath} to ${newPath}`);
+    console.log(chalk.blue(`📁 Saved to: ${filePath}`));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error comparing snapshots: ${msg}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureDiffCommand(new Command("sonarflow diff"));
+program.parse(process.argv);
+
+const [oldPath, newPath] = program.args;
+compareSnapshots(oldPath, newPath, program.opts<DiffOptions>());
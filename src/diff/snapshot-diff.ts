@@ -0,0 +1,236 @@
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { componentToPath } from "../git/changed-lines.js";
+import {
+  parseSonarPayload,
+  SONAR_MODEL_VERSION,
+  type SonarIssue,
+  type SonarIssuesResponse,
+  sonarIssuesResponseSchema,
+} from "../sonar/sonar-model.js";
+
+export type DiffStatus = "new" | "fixed" | "moved" | "unchanged";
+
+export interface DiffEntry {
+  key: string;
+  rule: string;
+  file: string;
+  line?: number;
+  severity?: string;
+  message?: string;
+  /** Location in the old snapshot, for moved issues */
+  previous?: { key: string; file: string; line?: number };
+}
+
+/**
+ * Identification of a compared snapshot
+ */
+export interface SnapshotInfo {
+  source?: string;
+  generatedAt?: string;
+  total: number;
+}
+
+/**
+ * Result of comparing two issues.json snapshots, as written to diff.json
+ */
+export interface SnapshotDiff {
+  schemaVersion: number;
+  generatedAt: string;
+  previous: SnapshotInfo;
+  current: SnapshotInfo;
+  summary: Record<DiffStatus, number>;
+  issues: Record<DiffStatus, DiffEntry[]>;
+}
+
+/**
+ * File path of an issue, preferring the path of the side-loaded component
+ * @param issue - SonarQube issue
+ * @param paths - Component paths by component key
+ * @returns File path
+ */
+const fileOf = (issue: SonarIssue, paths: Map<string, string>): string =>
+  paths.get(issue.component) ?? componentToPath(issue.component);
+
+/**
+ * Paths of the side-loaded components of a snapshot
+ * @param response - Snapshot
+ * @returns Component paths by component key
+ */
+const componentPaths = (response: SonarIssuesResponse): Map<string, string> =>
+  new Map(
+    (response.components ?? []).flatMap((component) =>
+      component.path ? [[component.key, component.path] as const] : []
+    )
+  );
+
+/**
+ * Content-based identity of an issue: rule, file and Sonar line hash
+ * @param issue - SonarQube issue
+ * @param file - File path of the issue
+ * @returns Identity, or null when Sonar provided no line hash
+ */
+const contentIdentity = (issue: SonarIssue, file: string): string | null =>
+  issue.hash ? `${issue.rule}|${file}|${issue.hash}` : null;
+
+/**
+ * Builds the diff entry of an issue
+ * @param issue - SonarQube issue
+ * @param file - File path of the issue
+ * @returns Diff entry
+ */
+const toEntry = (issue: SonarIssue, file: string): DiffEntry => ({
+  key: issue.key,
+  rule: issue.rule,
+  file,
+  line: issue.textRange?.startLine ?? issue.line,
+  severity: issue.severity,
+  message: issue.message,
+});
+
+/**
+ * Describes a snapshot from its sonarflow metadata
+ * @param response - Snapshot
+ * @returns Snapshot info
+ */
+const snapshotInfo = (response: SonarIssuesResponse): SnapshotInfo => ({
+  source: response.sonarflow?.source,
+  generatedAt: response.sonarflow?.generatedAt,
+  total: response.issues?.length ?? 0,
+});
+
+/**
+ * Compares two issues.json snapshots
+ *
+ * Issues are matched by key first, then by rule + file + line hash (Sonar may assign a new key
+ * after the code was moved). Matched issues whose file or line changed are "moved", the others
+ * "unchanged"; unmatched issues are "new" (only in the current snapshot) or "fixed" (only in the
+ * previous one).
+ * @param previous - Older snapshot
+ * @param current - Newer snapshot
+ * @returns Classified issues and counts
+ */
+export const diffSnapshots = (
+  previous: SonarIssuesResponse,
+  current: SonarIssuesResponse
+): SnapshotDiff => {
+  const previousPaths = componentPaths(previous);
+  const currentPaths = componentPaths(current);
+
+  const unmatchedPrevious = new Map(
+    (previous.issues ?? []).map((issue) => [issue.key, issue] as const)
+  );
+  const result: Record<DiffStatus, DiffEntry[]> = { new: [], fixed: [], moved: [], unchanged: [] };
+  const unmatchedCurrent: SonarIssue[] = [];
+
+  const classify = (before: SonarIssue, after: SonarIssue): void => {
+    const entry = toEntry(after, fileOf(after, currentPaths));
+    const old = toEntry(before, fileOf(before, previousPaths));
+    if (old.file !== entry.file || old.line !== entry.line) {
+      result.moved.push({ ...entry, previous: { key: old.key, file: old.file, line: old.line } });
+    } else {
+      result.unchanged.push(entry);
+    }
+  };
+
+  // First pass: same issue key
+  for (const issue of current.issues ?? []) {
+    const before = unmatchedPrevious.get(issue.key);
+    if (before) {
+      unmatchedPrevious.delete(issue.key);
+      classify(before, issue);
+    } else {
+      unmatchedCurrent.push(issue);
+    }
+  }
+
+  // Second pass: same rule, file and line hash
+  const previousByContent = new Map<string, SonarIssue[]>();
+  for (const issue of unmatchedPrevious.values()) {
+    const identity = contentIdentity(issue, fileOf(issue, previousPaths));
+    if (identity) {
+      previousByContent.set(identity, [...(previousByContent.get(identity) ?? []), issue]);
+    }
+  }
+  for (const issue of unmatchedCurrent) {
+    const identity = contentIdentity(issue, fileOf(issue, currentPaths));
+    const before = identity ? previousByContent.get(identity)?.shift() : undefined;
+    if (before) {
+      unmatchedPrevious.delete(before.key);
+      classify(before, issue);
+    } else {
+      result.new.push(toEntry(issue, fileOf(issue, currentPaths)));
+    }
+  }
+
+  for (const issue of unmatchedPrevious.values()) {
+    result.fixed.push(toEntry(issue, fileOf(issue, previousPaths)));
+  }
+
+  return {
+    schemaVersion: SONAR_MODEL_VERSION,
+    generatedAt: new Date().toISOString(),
+    previous: snapshotInfo(previous),
+    current: snapshotInfo(current),
+    summary: {
+      new: result.new.length,
+      fixed: result.fixed.length,
+      moved: result.moved.length,
+      unchanged: result.unchanged.length,
+    },
+    issues: result,
+  };
+};
+
+/**
+ * Reads and validates an issues.json snapshot
+ * @param snapshotPath - Path of an issues.json file, or of a directory containing one
+ * @returns Parsed snapshot
+ * @throws Error when the file is missing or invalid
+ */
+export const readIssuesSnapshot = (snapshotPath: string): SonarIssuesResponse => {
+  const filePath =
+    fs.existsSync(snapshotPath) && fs.statSync(snapshotPath).isDirectory()
+      ? path.join(snapshotPath, "issues.json")
+      : snapshotPath;
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Snapshot not found: ${filePath}`);
+  }
+  return parseSonarPayload(
+    sonarIssuesResponseSchema,
+    JSON.parse(fs.readFileSync(filePath, "utf8")),
+    "issues"
+  );
+};
+
+/**
+ * Prints a summary of a snapshot diff, listing new and fixed issues
+ * @param diff - Snapshot diff
+ * @param title - Summary heading
+ * @param maxListed - Maximum number of new/fixed issues listed
+ */
+export const printDiffSummary = (diff: SnapshotDiff, title: string, maxListed = 10): void => {
+  const { summary } = diff;
+  console.log(
+    chalk.blue(
+      `\n🔄 ${title}: ${chalk.red(`${summary.new} new`)}, ${chalk.green(`${summary.fixed} fixed`)}, ${summary.moved} moved, ${summary.unchanged} unchanged`
+    )
+  );
+
+  const list = (label: string, entries: DiffEntry[], color: (text: string) => string): void => {
+    if (entries.length === 0) {
+      return;
+    }
+    console.log(color(`  ${label}:`));
+    for (const entry of entries.slice(0, maxListed)) {
+      const location = entry.line !== undefined ? `${entry.file}:${entry.line}` : entry.file;
+      console.log(color(`    ${location} ${entry.rule} ${entry.message ?? ""}`.trimEnd()));
+    }
+    if (entries.length > maxListed) {
+      console.log(color(`    ...and ${entries.length - maxListed} more`));
+    }
+  };
+  list("New", diff.issues.new, chalk.red);
+  list("Fixed", diff.issues.fixed, chalk.green);
+};
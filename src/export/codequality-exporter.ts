@@ -0,0 +1,57 @@
+import type { NormalizedIssue } from "./normalize.js";
+
+/**
+ * Entry of a GitLab Code Quality report (Code Climate subset understood by GitLab)
+ */
+interface CodeQualityIssue {
+  type: "issue";
+  check_name: string;
+  description: string;
+  categories: string[];
+  severity: NormalizedIssue["severity"];
+  fingerprint: string;
+  location: {
+    path: string;
+    lines: { begin: number; end?: number };
+  };
+}
+
+/**
+ * Code Climate category of a finding
+ * @param issue - Normalized finding
+ * @returns Categories
+ */
+const categories = (issue: NormalizedIssue): string[] => {
+  switch (issue.type) {
+    case "BUG":
+      return ["Bug Risk"];
+    case "VULNERABILITY":
+    case "SECURITY_HOTSPOT":
+      return ["Security"];
+    default:
+      return ["Style"];
+  }
+};
+
+/**
+ * Converts normalized findings to a GitLab Code Quality report (`artifacts:reports:codequality`)
+ * @param issues - Normalized findings
+ * @returns Code Quality entries
+ */
+export const buildCodeQualityReport = (issues: NormalizedIssue[]): CodeQualityIssue[] =>
+  issues.map((issue) => ({
+    type: "issue",
+    check_name: issue.rule,
+    description: issue.kind === "hotspot" ? `Security hotspot: ${issue.message}` : issue.message,
+    categories: categories(issue),
+    severity: issue.severity,
+    fingerprint: issue.fingerprint,
+    location: {
+      path: issue.path,
+      // GitLab requires a line; file-level findings are reported on the first line
+      lines: {
+        begin: issue.line ?? 1,
+        ...(issue.endLine !== undefined && issue.endLine !== issue.line && { end: issue.endLine }),
+      },
+    },
+  }));
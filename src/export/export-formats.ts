@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { z } from "zod";
+import { resolveConfig } from "../config/config-resolver.js";
+import { getOutputPathPrefix } from "../git/repo-paths.js";
+import { getSonarUiUrl } from "../report/report-model.js";
+import { RULES_FILE, type RulesCatalog } from "../rules/rules-catalog.js";
+import {
+  parseSonarPayload,
+  type SonarHotspotsResponse,
+  type SonarIssuesResponse,
+  type SonarMeasuresResponse,
+  sonarHotspotsResponseSchema,
+  sonarIssuesResponseSchema,
+  sonarMeasuresResponseSchema,
+} from "../sonar/sonar-model.js";
+import { buildCodeQualityReport } from "./codequality-exporter.js";
+import { buildJUnitReport } from "./junit-exporter.js";
+import { normalizeIssues } from "./normalize.js";
+import { buildSarifLog } from "./sarif-exporter.js";
+
+/**
+ * Data converted by exporters: the content of issues.json, security-hotspots.json,
+ * measures.json and rules.json
+ */
+export interface ExportInput {
+  issues: SonarIssuesResponse;
+  hotspots?: SonarHotspotsResponse | null;
+  measures?: SonarMeasuresResponse | null;
+  /** Rule descriptions, written by `fetch --rules` */
+  rules?: RulesCatalog | null;
+}
+
+/**
+ * Environment of an export run
+ */
+export interface ExportContext {
+  /** Prefix turning Sonar paths into repository-relative paths (e.g. "packages/api/") */
+  pathPrefix: string;
+  /** Base URL of the Sonar web UI, for rule links */
+  sonarUiUrl: string;
+}
+
+interface Exporter {
+  /** Default file name, written next to issues.json */
+  fileName: string;
+  render: (input: ExportInput, context: ExportContext) => string;
+}
+
+const exporters = {
+  sarif: {
+    fileName: "issues.sarif",
+    render: (input, context) => `${JSON.stringify(buildSarifLog(input, context), null, 2)}\n`,
+  },
+  codequality: {
+    fileName: "codeclimate.json",
+    render: (input, context) =>
+      `${JSON.stringify(buildCodeQualityReport(normalizeIssues(input, context.pathPrefix)), null, 2)}\n`,
+  },
+  junit: {
+    fileName: "junit.xml",
+    render: (input, context) => buildJUnitReport(normalizeIssues(input, context.pathPrefix)),
+  },
+} satisfies Record<string, Exporter>;
+
+export type ExportFormat = keyof typeof exporters;
+
+export const EXPORT_FORMATS = Object.keys(exporters) as ExportFormat[];
+
+/**
+ * Resolves the directory written by `sonarflow fetch`
+ * @param dir - Directory passed on the command line, if any
+ * @returns Absolute output directory (default: the effective outputPath, or .sonarflow/)
+ */
+export const resolveOutputDir = (dir?: string): string => {
+  if (dir) {
+    return path.resolve(dir);
+  }
+
+  const { outputPath } = resolveConfig().config as { outputPath?: string };
+  return path.join(process.cwd(), outputPath || ".sonarflow/");
+};
+
+/**
+ * Reads an optional JSON file of the fetch output and validates it
+ * @param filePath - File path
+ * @param schema - Domain schema of the file
+ * @param label - Name of the payload used in error messages
+ * @returns Parsed content, or null when the file does not exist
+ */
+const readOptionalJson = <T extends z.ZodTypeAny>(
+  filePath: string,
+  schema: T,
+  label: string
+): z.infer<T> | null =>
+  fs.existsSync(filePath)
+    ? parseSonarPayload(schema, JSON.parse(fs.readFileSync(filePath, "utf8")), label)
+    : null;
+
+/**
+ * Reads issues.json (required), security-hotspots.json, measures.json and rules.json (optional)
+ * from a fetch output directory
+ * @param outputDir - Directory written by `sonarflow fetch`
+ * @returns Export input
+ * @throws Error when issues.json is missing or invalid
+ */
+export const loadExportInput = (outputDir: string): ExportInput => {
+  const issuesPath = path.join(outputDir, "issues.json");
+  if (!fs.existsSync(issuesPath)) {
+    throw new Error(`${issuesPath} not found. Run 'sonarflow fetch' first`);
+  }
+  const issues = parseSonarPayload(
+    sonarIssuesResponseSchema,
+    JSON.parse(fs.readFileSync(issuesPath, "utf8")),
+    "issues"
+  );
+
+  const hotspots = readOptionalJson(
+    path.join(outputDir, "security-hotspots.json"),
+    sonarHotspotsResponseSchema,
+    "security hotspots"
+  );
+  const measures = readOptionalJson(
+    path.join(outputDir, "measures.json"),
+    sonarMeasuresResponseSchema,
+    "measures"
+  );
+
+  const rulesPath = path.join(outputDir, RULES_FILE);
+  const rules = fs.existsSync(rulesPath)
+    ? (JSON.parse(fs.readFileSync(rulesPath, "utf8")) as RulesCatalog)
+    : null;
+
+  return { issues, hotspots, measures, rules };
+};
+
+/**
+ * Renders fetched issues in the given format and writes them to disk
+ * @param format - Export format
+ * @param input - Issues and security hotspots
+ * @param outputDir - Directory where the default file name is used
+ * @param outputFile - Explicit output file, overriding the default location
+ * @param sonarBaseUrl - Configured SonarQube URL, for rule links (default: the effective sonarBaseUrl)
+ * @returns Path of the written file
+ */
+export const writeExport = (
+  format: ExportFormat,
+  input: ExportInput,
+  outputDir: string,
+  outputFile?: string,
+  sonarBaseUrl = resolveConfig().config.sonarBaseUrl as string | undefined
+): string => {
+  const exporter: Exporter = exporters[format];
+  const filePath = outputFile ?? path.join(outputDir, exporter.fileName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    exporter.render(input, {
+      pathPrefix: getOutputPathPrefix(input.issues),
+      sonarUiUrl: getSonarUiUrl(sonarBaseUrl),
+    })
+  );
+  return filePath;
+};
@@ -0,0 +1,28 @@
+import type { Command } from "commander";
+import { EXPORT_FORMATS } from "./export-formats.js";
+
+/**
+ * Options of the export command, as parsed by commander
+ */
+export interface ExportOptions {
+  /** Directory containing issues.json (default: outputPath or .sonarflow/) */
+  input?: string;
+  /** Output file (default: next to issues.json) */
+  output?: string;
+}
+
+/**
+ * Declares arguments and options of the export command
+ * Shared by the sonarflow CLI (help and validation) and the export script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureExportCommand = (command: Command): Command =>
+  command
+    .description("Convert fetched issues and security hotspots to another format")
+    .addArgument(command.createArgument("<format>", "Export format").choices(EXPORT_FORMATS))
+    .option(
+      "-i, --input <dir>",
+      "Directory containing issues.json (default: outputPath or .sonarflow/)"
+    )
+    .option("-o, --output <file>", "Output file (default: next to issues.json)");
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+import chalk from "chalk";
+import { Command } from "commander";
+import {
+  type ExportFormat,
+  loadExportInput,
+  resolveOutputDir,
+  writeExport,
+} from "./export-formats.js";
+import { configureExportCommand, type ExportOptions } from "./export-options.js";
+
+/**
+ * Exports fetched issues in the requested format
+ * @param format - Export format
+ * @param options - Export command options
+ */
+const exportIssues = (format: ExportFormat, options: ExportOptions): void => {
+  try {
+    const inputDir = resolveOutputDir(options.input);
+    const input = loadExportInput(inputDir);
+    const filePath = writeExport(format, input, inputDir, options.output);
+
+    const count = (input.issues.issues?.length ?? 0) + (input.hotspots?.hotspots?.length ?? 0);
+    console.log(chalk.green(`✅ Exported ${count} finding(s) as ${format}`));
+    console.log(chalk.blue(`📁 Saved to: ${filePath}`));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error exporting issues: ${msg}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureExportCommand(new Command("sonarflow export"));
+program.parse(process.argv);
+
+exportIssues(program.args[0] as ExportFormat, program.opts<ExportOptions>());
@@ -0,0 +1,83 @@
+import type { NormalizedIssue } from "./normalize.js";
+
+/**
+ * Whether a character is allowed in XML 1.0 (the `Char` production)
+ * #x9 | #xA | #xD | [#x20-#xD7FF] | [#xE000-#xFFFD] | [#x10000-#x10FFFF]; this excludes
+ * controls, U+FFFE, U+FFFF and unpaired surrogates
+ * @param char - Character (a code point, as produced by spreading a string)
+ * @returns True when allowed
+ */
+const isXmlChar = (char: string): boolean => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  return (
+    codePoint === 0x9 ||
+    codePoint === 0xa ||
+    codePoint === 0xd ||
+    (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+    (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+    codePoint >= 0x10000
+  );
+};
+
+/**
+ * Escapes text for XML content and attributes
+ * Characters invalid in XML 1.0 are dropped
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+const escapeXml = (text: string): string =>
+  [...text]
+    .filter(isXmlChar)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/**
+ * Converts normalized findings to a JUnit XML report
+ * Each file is a test suite and each finding a failed test case, so CI test dashboards
+ * (e.g. GitLab `artifacts:reports:junit`) list them
+ * @param issues - Normalized findings
+ * @returns JUnit XML document
+ */
+export const buildJUnitReport = (issues: NormalizedIssue[]): string => {
+  const byFile = new Map<string, NormalizedIssue[]>();
+  for (const issue of issues) {
+    byFile.set(issue.path, [...(byFile.get(issue.path) ?? []), issue]);
+  }
+
+  const suites = [...byFile]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([file, fileIssues]) => {
+      const cases = fileIssues.map((issue) => {
+        const location = issue.line !== undefined ? `${file}:${issue.line}` : file;
+        const details = [
+          `${issue.kind === "hotspot" ? "Security hotspot" : "Issue"}: ${issue.key}`,
+          `Rule: ${issue.rule}${issue.ruleName ? ` (${issue.ruleName})` : ""}`,
+          `Severity: ${issue.severity}`,
+          `Location: ${location}`,
+          `Fingerprint: ${issue.fingerprint}`,
+        ].join("\n");
+        return [
+          `    <testcase name="${escapeXml(`${issue.rule} at ${location}`)}" classname="${escapeXml(file)}" file="${escapeXml(file)}"${issue.line !== undefined ? ` line="${issue.line}"` : ""}>`,
+          `      <failure message="${escapeXml(issue.message)}" type="${escapeXml(issue.severity)}">${escapeXml(details)}</failure>`,
+          "    </testcase>",
+        ].join("\n");
+      });
+      return [
+        `  <testsuite name="${escapeXml(file)}" tests="${fileIssues.length}" failures="${fileIssues.length}" errors="0" skipped="0">`,
+        ...cases,
+        "  </testsuite>",
+      ].join("\n");
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="SonarQube" tests="${issues.length}" failures="${issues.length}" errors="0">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,152 @@
+import { createHash } from "node:crypto";
+import { componentToPath } from "../git/changed-lines.js";
+import { toRepoPath } from "../git/repo-paths.js";
+import type { SonarHotspot, SonarIssue } from "../sonar/sonar-model.js";
+import type { ExportInput } from "./export-formats.js";
+
+export type NormalizedSeverity = "blocker" | "critical" | "major" | "minor" | "info";
+
+/**
+ * Format-independent view of an issue or security hotspot, used by CI exporters
+ */
+export interface NormalizedIssue {
+  kind: "issue" | "hotspot";
+  key: string;
+  rule: string;
+  ruleName?: string;
+  message: string;
+  /** Path relative to the repository root */
+  path: string;
+  /** Sonar project of the finding, when the response names it (monorepos have several) */
+  project?: string;
+  line?: number;
+  endLine?: number;
+  severity: NormalizedSeverity;
+  /** Sonar issue type (BUG, VULNERABILITY, CODE_SMELL, SECURITY_HOTSPOT) */
+  type?: string;
+  /** Identifier that stays the same across runs while the issue exists */
+  fingerprint: string;
+}
+
+const LEGACY_SEVERITIES: Record<string, NormalizedSeverity> = {
+  BLOCKER: "blocker",
+  CRITICAL: "critical",
+  MAJOR: "major",
+  MINOR: "minor",
+  INFO: "info",
+};
+
+const IMPACT_SEVERITIES: Record<string, NormalizedSeverity> = {
+  BLOCKER: "blocker",
+  HIGH: "critical",
+  MEDIUM: "major",
+  LOW: "minor",
+  INFO: "info",
+};
+
+const HOTSPOT_SEVERITIES: Record<string, NormalizedSeverity> = {
+  HIGH: "critical",
+  MEDIUM: "major",
+  LOW: "minor",
+};
+
+const SEVERITY_RANK: NormalizedSeverity[] = ["blocker", "critical", "major", "minor", "info"];
+
+/**
+ * Severity of an issue: legacy severity, or the highest Clean Code impact severity
+ * @param issue - SonarQube issue
+ * @returns Normalized severity
+ */
+const issueSeverity = (issue: SonarIssue): NormalizedSeverity => {
+  // Severities added by newer Sonar versions fall back to the impacts
+  const legacy = issue.severity ? LEGACY_SEVERITIES[issue.severity] : undefined;
+  if (legacy) {
+    return legacy;
+  }
+  const severities = (issue.impacts ?? []).map((impact) => IMPACT_SEVERITIES[impact.severity]);
+  return SEVERITY_RANK.find((severity) => severities.includes(severity)) ?? "info";
+};
+
+const sha256 = (value: string): string => createHash("sha256").update(value).digest("hex");
+
+/**
+ * Fingerprint seed of a finding
+ * Uses the Sonar line hash when available, so the fingerprint survives line shifts;
+ * otherwise the Sonar key, which Sonar keeps stable across analyses
+ * @param finding - Issue or hotspot
+ * @param rule - Rule key
+ * @param path - Repository-relative path
+ * @returns Fingerprint seed
+ */
+const fingerprintSeed = (finding: SonarIssue | SonarHotspot, rule: string, path: string): string =>
+  "hash" in finding && typeof finding.hash === "string"
+    ? `${rule}|${path}|${finding.hash}`
+    : `key|${finding.key}`;
+
+/**
+ * Converts fetched issues and security hotspots into a flat, format-independent list
+ * @param input - Fetched issues and hotspots
+ * @param pathPrefix - Prefix turning Sonar paths into repository-relative paths
+ * @returns Normalized findings, with unique fingerprints
+ */
+export const normalizeIssues = (input: ExportInput, pathPrefix = ""): NormalizedIssue[] => {
+  const { issues, hotspots } = input;
+  const paths = new Map<string, string>();
+  for (const component of [...(issues.components ?? []), ...(hotspots?.components ?? [])]) {
+    if (component.path) {
+      paths.set(component.key, component.path);
+    }
+  }
+  const pathOf = (component: string): string =>
+    toRepoPath(paths.get(component) ?? componentToPath(component), pathPrefix);
+  const ruleNames = new Map((issues.rules ?? []).map((rule) => [rule.key, rule.name]));
+
+  const findings: Array<Omit<NormalizedIssue, "fingerprint"> & { seed: string }> = [];
+
+  for (const issue of issues.issues ?? []) {
+    const path = pathOf(issue.component);
+    findings.push({
+      kind: "issue",
+      key: issue.key,
+      rule: issue.rule,
+      ruleName: ruleNames.get(issue.rule),
+      message: issue.message ?? issue.rule,
+      path,
+      ...(issue.project && { project: issue.project }),
+      line: issue.textRange?.startLine ?? issue.line,
+      endLine: issue.textRange?.endLine,
+      severity: issueSeverity(issue),
+      type: issue.type,
+      seed: fingerprintSeed(issue, issue.rule, path),
+    });
+  }
+
+  for (const hotspot of hotspots?.hotspots ?? []) {
+    const path = pathOf(hotspot.component);
+    const rule = hotspot.ruleKey ?? "security-hotspot";
+    findings.push({
+      kind: "hotspot",
+      key: hotspot.key,
+      rule,
+      message: hotspot.message ?? rule,
+      path,
+      ...(hotspot.project && { project: hotspot.project }),
+      line: hotspot.textRange?.startLine ?? hotspot.line,
+      endLine: hotspot.textRange?.endLine,
+      severity: HOTSPOT_SEVERITIES[hotspot.vulnerabilityProbability ?? ""] ?? "minor",
+      type: "SECURITY_HOTSPOT",
+      seed: fingerprintSeed(hotspot, rule, path),
+    });
+  }
+
+  // Identical seeds (same rule on identical lines of a file) get an occurrence suffix
+  const occurrences = new Map<string, number>();
+  return findings.map(({ seed, ...finding }) => {
+    const occurrence = occurrences.get(seed) ?? 0;
+    occurrences.set(seed, occurrence + 1);
+    return {
+      ...finding,
+      fingerprint: sha256(occurrence === 0 ? seed : `${seed}|${occurrence}`),
+    };
+  });
+};
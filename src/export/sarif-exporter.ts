@@ -0,0 +1,353 @@
+import { componentToPath } from "../git/changed-lines.js";
+import { toRepoPath } from "../git/repo-paths.js";
+import { getSonarRuleUrl, getSonarUiUrl } from "../report/report-model.js";
+import type { RuleDocument } from "../rules/rules-catalog.js";
+import type {
+  SonarComponent,
+  SonarFlow,
+  SonarHotspot,
+  SonarIssue,
+  SonarTextRange,
+} from "../sonar/sonar-model.js";
+import type { ExportContext, ExportInput } from "./export-formats.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+const SOURCE_ROOT = "%SRCROOT%";
+
+type SarifLevel = "error" | "warning" | "note" | "none";
+
+interface SarifRegion {
+  startLine: number;
+  endLine?: number;
+  startColumn?: number;
+  endColumn?: number;
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: SarifRegion;
+  };
+  message?: { text: string };
+}
+
+interface SarifRule {
+  id: string;
+  name?: string;
+  shortDescription?: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string };
+  helpUri?: string;
+  properties?: Record<string, unknown>;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex?: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  codeFlows?: Array<{
+    threadFlows: Array<{ locations: Array<{ location: SarifLocation }> }>;
+  }>;
+  partialFingerprints?: Record<string, string>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: Array<{
+    tool: {
+      driver: { name: string; informationUri: string; rules: SarifRule[] };
+    };
+    originalUriBaseIds: Record<string, { description: { text: string } }>;
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Maps a SonarQube issue to a SARIF level
+ * Legacy severities win; Clean Code impact severities are used when they are missing
+ * @param issue - SonarQube issue
+ * @returns SARIF level
+ */
+const issueLevel = (issue: SonarIssue): SarifLevel => {
+  switch (issue.severity) {
+    case "BLOCKER":
+    case "CRITICAL":
+      return "error";
+    case "MAJOR":
+      return "warning";
+    case "MINOR":
+    case "INFO":
+      return "note";
+  }
+
+  const impactSeverities = (issue.impacts ?? []).map((impact) => impact.severity);
+  if (impactSeverities.some((severity) => severity === "BLOCKER" || severity === "HIGH")) {
+    return "error";
+  }
+  if (impactSeverities.includes("MEDIUM")) {
+    return "warning";
+  }
+  return "note";
+};
+
+/**
+ * Maps a hotspot review priority to a SARIF level
+ * @param hotspot - SonarQube security hotspot
+ * @returns SARIF level
+ */
+const hotspotLevel = (hotspot: SonarHotspot): SarifLevel => {
+  switch (hotspot.vulnerabilityProbability) {
+    case "HIGH":
+      return "error";
+    case "MEDIUM":
+      return "warning";
+    default:
+      return "note";
+  }
+};
+
+/**
+ * Converts a SonarQube text range (1-based lines, 0-based offsets) to a SARIF region
+ * (1-based lines and columns, exclusive end column)
+ * @param textRange - SonarQube text range
+ * @param line - Issue line, used when there is no text range
+ * @returns SARIF region, or undefined for file-level findings
+ */
+const toRegion = (textRange?: SonarTextRange, line?: number): SarifRegion | undefined => {
+  if (textRange) {
+    return {
+      startLine: textRange.startLine,
+      endLine: textRange.endLine,
+      ...(textRange.startOffset !== undefined && { startColumn: textRange.startOffset + 1 }),
+      ...(textRange.endOffset !== undefined && { endColumn: textRange.endOffset + 1 }),
+    };
+  }
+  return line !== undefined ? { startLine: line } : undefined;
+};
+
+/**
+ * Builds SARIF locations, resolving component keys to file paths
+ */
+class LocationResolver {
+  private readonly paths = new Map<string, string>();
+
+  constructor(
+    components: SonarComponent[],
+    private readonly pathPrefix: string
+  ) {
+    for (const component of components) {
+      if (component.path) {
+        this.paths.set(component.key, component.path);
+      }
+    }
+  }
+
+  location(
+    component: string,
+    textRange?: SonarTextRange,
+    line?: number,
+    message?: string
+  ): SarifLocation {
+    const region = toRegion(textRange, line);
+    return {
+      physicalLocation: {
+        artifactLocation: {
+          uri: toRepoPath(this.paths.get(component) ?? componentToPath(component), this.pathPrefix),
+          uriBaseId: SOURCE_ROOT,
+        },
+        ...(region && { region }),
+      },
+      ...(message && { message: { text: message } }),
+    };
+  }
+
+  codeFlows(flows: SonarFlow[] = []): SarifResult["codeFlows"] {
+    const codeFlows = flows
+      .filter((flow) => flow.locations.length > 0)
+      .map((flow) => ({
+        threadFlows: [
+          {
+            locations: flow.locations.map((location) => ({
+              location: this.location(
+                location.component,
+                location.textRange,
+                undefined,
+                location.msg
+              ),
+            })),
+          },
+        ],
+      }));
+    return codeFlows.length > 0 ? codeFlows : undefined;
+  }
+}
+
+/**
+ * Converts a rule description (HTML) to plain text
+ * @param html - HTML fragment
+ * @returns Text, one paragraph per block
+ */
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>|<\/(?:p|h\d|li|pre|div|ul|ol)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+/**
+ * Descriptions of a rule shown by SARIF viewers (e.g. GitHub code scanning)
+ * @param document - Rule of rules.json, when fetched with descriptions
+ * @returns Full description (what the rule is about) and help (all sections)
+ */
+const ruleTexts = (document: RuleDocument): { full?: string; help?: string } => {
+  const { introduction, why, assessTheProblem, howToFix, resources, full } = document.description;
+  const help = [introduction, why, assessTheProblem, howToFix, resources, full]
+    .filter((section): section is string => Boolean(section))
+    .map(htmlToText)
+    .join("\n\n");
+  const summary = introduction ?? why ?? full;
+  return { full: summary && htmlToText(summary), help: help || undefined };
+};
+
+/**
+ * Converts fetched SonarQube issues and security hotspots to a SARIF 2.1.0 log
+ * @param input - Fetched issues and, optionally, security hotspots
+ * @param context - Export context (repository path prefix)
+ * @returns SARIF log with a single run
+ */
+export const buildSarifLog = (
+  { issues, hotspots, rules: catalog }: ExportInput,
+  { pathPrefix, sonarUiUrl }: ExportContext = { pathPrefix: "", sonarUiUrl: getSonarUiUrl() }
+): SarifLog => {
+  const resolver = new LocationResolver(
+    [...(issues.components ?? []), ...(hotspots?.components ?? [])],
+    pathPrefix
+  );
+  const sonarRules = new Map((issues.rules ?? []).map((rule) => [rule.key, rule]));
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  // Name, descriptions and link of a rule, from rules.json when fetched with descriptions
+  const describeRule = (id: string, name?: string): Omit<SarifRule, "id" | "properties"> => {
+    const document = catalog?.rules[id];
+    const ruleName = document?.name ?? name;
+    const texts = document ? ruleTexts(document) : {};
+    return {
+      ...(ruleName && { name: ruleName, shortDescription: { text: ruleName } }),
+      ...(texts.full && { fullDescription: { text: texts.full } }),
+      ...(texts.help && { help: { text: texts.help } }),
+      helpUri: getSonarRuleUrl(sonarUiUrl, id),
+    };
+  };
+
+  const ruleIndex = (id: string, build: () => SarifRule): number => {
+    let index = ruleIndexes.get(id);
+    if (index === undefined) {
+      index = rules.push(build()) - 1;
+      ruleIndexes.set(id, index);
+    }
+    return index;
+  };
+
+  const results: SarifResult[] = [];
+
+  for (const issue of issues.issues ?? []) {
+    const level = issueLevel(issue);
+    const index = ruleIndex(issue.rule, () => {
+      const sonarRule = sonarRules.get(issue.rule);
+      return {
+        id: issue.rule,
+        ...describeRule(issue.rule, sonarRule?.name),
+        properties: {
+          ...(sonarRule?.lang && { language: sonarRule.lang }),
+          ...(issue.type && { type: issue.type }),
+          ...(issue.tags && { tags: issue.tags }),
+        },
+      };
+    });
+
+    const codeFlows = resolver.codeFlows(issue.flows);
+    results.push({
+      ruleId: issue.rule,
+      ruleIndex: index,
+      level,
+      message: { text: issue.message ?? issue.rule },
+      locations: [resolver.location(issue.component, issue.textRange, issue.line)],
+      ...(codeFlows && { codeFlows }),
+      ...(issue.hash && { partialFingerprints: { "sonarLineHash/v1": issue.hash } }),
+      properties: {
+        sonarKey: issue.key,
+        ...(issue.type && { type: issue.type }),
+        ...(issue.severity && { severity: issue.severity }),
+        ...(issue.impacts && { impacts: issue.impacts }),
+        ...(issue.effort && { effort: issue.effort }),
+      },
+    });
+  }
+
+  for (const hotspot of hotspots?.hotspots ?? []) {
+    const ruleId = hotspot.ruleKey ?? "sonar-security-hotspot";
+    const level = hotspotLevel(hotspot);
+    const index = ruleIndex(ruleId, () => ({
+      id: ruleId,
+      ...(hotspot.ruleKey && describeRule(hotspot.ruleKey)),
+      properties: {
+        tags: [
+          "security",
+          "security-hotspot",
+          ...(hotspot.securityCategory ? [hotspot.securityCategory] : []),
+        ],
+      },
+    }));
+
+    const codeFlows = resolver.codeFlows(hotspot.flows);
+    results.push({
+      ruleId,
+      ruleIndex: index,
+      level,
+      message: { text: hotspot.message ?? ruleId },
+      locations: [resolver.location(hotspot.component, hotspot.textRange, hotspot.line)],
+      ...(codeFlows && { codeFlows }),
+      properties: {
+        sonarKey: hotspot.key,
+        type: "SECURITY_HOTSPOT",
+        ...(hotspot.securityCategory && { securityCategory: hotspot.securityCategory }),
+        ...(hotspot.vulnerabilityProbability && {
+          vulnerabilityProbability: hotspot.vulnerabilityProbability,
+        }),
+        ...(hotspot.status && { status: hotspot.status }),
+      },
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "SonarQube",
+            informationUri: "https://www.sonarsource.com/products/sonarqube/",
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SOURCE_ROOT]: { description: { text: "Root of the analyzed project" } },
+        },
+        results,
+      },
+    ],
+  };
+};
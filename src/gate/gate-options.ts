@@ -0,0 +1,40 @@
+import { type Command, Option } from "commander";
+import { parsePrId, parsePrLink } from "../versioning/fetch-options.js";
+
+/**
+ * Options of the gate command, as parsed by commander
+ */
+export interface GateOptions {
+  /** Branch to check (defaults to the current git branch) */
+  branch?: string;
+  /** SonarQube pull request key */
+  pr?: string;
+  /** SonarQube pull request link */
+  prLink?: string;
+  /** Whether to look up an open PR for the branch on the git provider */
+  prDetect: boolean;
+}
+
+/**
+ * Declares options of the gate command
+ * Shared by the sonarflow CLI (help and validation) and the gate script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureGateCommand = (command: Command): Command =>
+  command
+    .description(
+      "Check the Sonar quality gate of the current branch or PR (exit code 1 when it fails)"
+    )
+    .option("-b, --branch <name>", "Branch to check (default: current git branch)")
+    .addOption(
+      new Option("--pr <id>", "SonarQube pull request ID (skips PR detection)")
+        .argParser(parsePrId)
+        .conflicts("prLink")
+    )
+    .addOption(
+      new Option("--pr-link <url>", "SonarQube pull request link (skips PR detection)").argParser(
+        parsePrLink
+      )
+    )
+    .option("--no-pr-detect", "Do not look up an open PR for the branch on the git provider");
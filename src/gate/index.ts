@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+import chalk from "chalk";
+import { Command } from "commander";
+import dotenv from "dotenv";
+import { formatHttpError } from "../http/http-errors.js";
+import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import {
+  loadConfiguration,
+  resolveCurrentBranch,
+  resolveSonarTarget,
+} from "../versioning/project-config.js";
+import { configureGateCommand, type GateOptions } from "./gate-options.js";
+import { GATE_EXIT_CODES, gateExitCode, printQualityGate } from "./quality-gate.js";
+
+dotenv.config();
+
+/**
+ * Checks the quality gate and exits with its CI exit code
+ * @param options - Gate command options
+ */
+const checkQualityGate = async (options: GateOptions): Promise<void> => {
+  try {
+    const config = loadConfiguration();
+    const { scope, source } = await resolveSonarTarget(
+      options,
+      config,
+      resolveCurrentBranch(options)
+    );
+    console.log(chalk.blue(`🔍 Checking quality gate for ${source}...`));
+
+    const response = await new SonarIssueExtractor(config).fetchQualityGateStatus(config, scope);
+    printQualityGate(response, source);
+    process.exit(gateExitCode(response.projectStatus.status));
+  } catch (error) {
+    console.error(chalk.red(`❌ Error checking quality gate: ${formatHttpError(error)}`));
+    process.exit(GATE_EXIT_CODES.unavailable);
+  }
+};
+
+// Parse command line arguments
+const program = configureGateCommand(new Command("sonarflow gate"));
+program.parse(process.argv);
+
+await checkQualityGate(program.opts<GateOptions>());
@@ -0,0 +1,92 @@
+import chalk from "chalk";
+import type {
+  SonarQualityGateCondition,
+  SonarQualityGateStatusResponse,
+} from "../sonar/sonar-model.js";
+
+/**
+ * Exit codes of the gate command
+ */
+export const GATE_EXIT_CODES = {
+  /** Quality gate passed (OK or WARN) */
+  passed: 0,
+  /** Quality gate failed (ERROR) */
+  failed: 1,
+  /** Quality gate could not be checked (no gate computed, configuration or API error) */
+  unavailable: 2,
+} as const;
+
+/**
+ * Requirement expressed by a condition comparator
+ * A condition fails when the actual value is greater than (GT) or less than (LT) the threshold
+ */
+const COMPARATOR_REQUIREMENTS: Record<string, string> = {
+  GT: "≤",
+  LT: "≥",
+  EQ: "≠",
+  NE: "=",
+};
+
+/**
+ * Describes a quality gate condition as "metric: actual (required ≥ threshold)"
+ * @param condition - Quality gate condition
+ * @returns Condition description
+ */
+export const describeCondition = (condition: SonarQualityGateCondition): string => {
+  const requirement = condition.comparator
+    ? (COMPARATOR_REQUIREMENTS[condition.comparator] ?? condition.comparator)
+    : "vs";
+  const threshold =
+    condition.errorThreshold !== undefined
+      ? ` (required ${requirement} ${condition.errorThreshold})`
+      : "";
+  return `${condition.metricKey}: ${condition.actualValue ?? "n/a"}${threshold}`;
+};
+
+/**
+ * Exit code of a quality gate status
+ * @param status - Quality gate status (OK, WARN, ERROR or NONE)
+ * @returns Exit code of the gate command
+ */
+export const gateExitCode = (status: string): number => {
+  if (status === "OK" || status === "WARN") {
+    return GATE_EXIT_CODES.passed;
+  }
+  if (status === "ERROR") {
+    return GATE_EXIT_CODES.failed;
+  }
+  return GATE_EXIT_CODES.unavailable;
+};
+
+/**
+ * Prints the quality gate status and its failing conditions
+ * @param response - Quality gate status response
+ * @param source - Checked branch or PR, for display
+ */
+export const printQualityGate = (
+  response: SonarQualityGateStatusResponse,
+  source: string
+): void => {
+  const { status, conditions = [] } = response.projectStatus;
+  const failing = conditions.filter((condition) => condition.status === "ERROR");
+  const warning = conditions.filter((condition) => condition.status === "WARN");
+
+  if (status === "OK" || status === "WARN") {
+    console.log(chalk.green(`✅ Quality gate passed for ${source} (${status})`));
+  } else if (status === "ERROR") {
+    console.log(chalk.red(`❌ Quality gate failed for ${source}`));
+  } else {
+    console.log(chalk.yellow(`⚠️  No quality gate computed for ${source} (${status})`));
+  }
+
+  for (const condition of failing) {
+    console.log(chalk.red(`  ❌ ${describeCondition(condition)}`));
+  }
+  for (const condition of warning) {
+    console.log(chalk.yellow(`  ⚠️  ${describeCondition(condition)}`));
+  }
+  if (conditions.length > 0) {
+    const passed = conditions.length - failing.length - warning.length;
+    console.log(chalk.blue(`📊 ${passed} of ${conditions.length} condition(s) passed`));
+  }
+};
@@ -0,0 +1,217 @@
+import { execFileSync } from "node:child_process";
+
+/**
+ * Inclusive range of line numbers in the new version of a file
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changed line ranges keyed by file path (relative to the working directory)
+ */
+export type ChangedLines = Map<string, LineRange[]>;
+
+/**
+ * Minimal issue shape needed to locate an issue in a file
+ */
+interface LocatedIssue {
+  component: string;
+  line?: number;
+  textRange?: { startLine: number; endLine: number };
+}
+
+/**
+ * Largest diff output accepted from git, in bytes
+ */
+const MAX_DIFF_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Runs a git command and returns its trimmed output
+ * @param args - git arguments
+ * @returns Command output
+ */
+const git = (args: string[]): string =>
+  execFileSync("git", args, {
+    encoding: "utf8",
+    maxBuffer: MAX_DIFF_BUFFER,
+    stdio: ["ignore", "pipe", "pipe"],
+  }).trim();
+
+/**
+ * Resolves the base ref used for diff-scoped fetches
+ * Falls back to the remote default branch (origin/HEAD), then to origin/main
+ * @param base - Base ref provided by the user, if any
+ * @returns Base ref
+ */
+export const resolveBaseRef = (base?: string): string => {
+  if (base) {
+    return base;
+  }
+  try {
+    return git(["symbolic-ref", "--short", "refs/remotes/origin/HEAD"]);
+  } catch {
+    return "origin/main";
+  }
+};
+
+/**
+ * Escapes of git's C-style quoted paths, other than octal bytes
+ */
+const PATH_ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  f: 0x0c,
+  n: 0x0a,
+  r: 0x0d,
+  t: 0x09,
+  v: 0x0b,
+  '"': 0x22,
+  "\\": 0x5c,
+};
+
+/**
+ * Decodes a path as written in diff headers
+ * git quotes paths with special or non-ASCII characters (`"b/caf\303\251.ts"`), escaping
+ * each byte of non-ASCII characters in octal
+ * @param raw - Path from the header
+ * @returns Decoded path
+ */
+const unquoteGitPath = (raw: string): string => {
+  if (!(raw.startsWith('"') && raw.endsWith('"') && raw.length >= 2)) {
+    return raw;
+  }
+  const bytes: number[] = [];
+  const body = raw.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== "\\") {
+      bytes.push(...Buffer.from(body[i], "utf8"));
+      continue;
+    }
+    const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+    if (octal) {
+      bytes.push(Number.parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      const escaped = body[i + 1];
+      bytes.push(PATH_ESCAPES[escaped] ?? escaped.charCodeAt(0));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+};
+
+/**
+ * Parses a zero-context unified diff (`git diff -U0`) into added/modified line ranges
+ * Pure deletions are ignored: they leave no line in the new version of the file.
+ * Hunk bodies are consumed using the line counts of their header, so an added line whose
+ * content looks like a file header (`++ x` added as `+++ x`) is not mistaken for one
+ * @param diff - Unified diff output
+ * @returns Changed line ranges by file path
+ */
+export const parseUnifiedDiff = (diff: string): ChangedLines => {
+  const changed: ChangedLines = new Map();
+  let currentFile: string | null = null;
+  // Lines of the current hunk still expected, in the old and new versions of the file
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of diff.split("\n")) {
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (line.startsWith("+")) {
+        newRemaining--;
+      } else if (line.startsWith("-")) {
+        oldRemaining--;
+      } else if (!line.startsWith("\\")) {
+        // Context line; "\ No newline at end of file" belongs to neither version
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    if (line.startsWith("+++ ")) {
+      const target = unquoteGitPath(line.slice(4).trim());
+      currentFile = target === "/dev/null" ? null : target.replace(/^b\//, "");
+      if (currentFile && !changed.has(currentFile)) {
+        changed.set(currentFile, []);
+      }
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk) {
+      oldRemaining = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      const start = Number(hunk[2]);
+      const count = hunk[3] === undefined ? 1 : Number(hunk[3]);
+      newRemaining = count;
+      if (currentFile && count > 0) {
+        changed.get(currentFile)?.push({ start, end: start + count - 1 });
+      }
+    }
+  }
+
+  return changed;
+};
+
+/**
+ * Collects the lines changed on HEAD since it diverged from the base ref (`git diff <base>...HEAD`)
+ * @param base - Base ref (branch, tag or commit)
+ * @returns Changed line ranges by file path
+ * @throws Error when git cannot compute the diff (unknown ref, not a git repository)
+ */
+export const getChangedLines = (base: string): ChangedLines => {
+  try {
+    const diff = git([
+      "diff",
+      "--relative",
+      "--no-color",
+      "--no-ext-diff",
+      "--unified=0",
+      `${base}...HEAD`,
+    ]);
+    return parseUnifiedDiff(diff);
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.toString().trim();
+    const reason = stderr
+      ? stderr.split("\n")[0].replace(/\.$/, "")
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    throw new Error(
+      `Could not compute changed lines against ${base}: ${reason}. Fetch the base branch or pass --base <ref>`
+    );
+  }
+};
+
+/**
+ * Extracts the file path from a SonarQube component key (`projectKey:path/to/file`)
+ * @param component - Component key
+ * @returns File path relative to the project root
+ */
+export const componentToPath = (component: string): string => {
+  const separator = component.indexOf(":");
+  return separator === -1 ? component : component.slice(separator + 1);
+};
+
+/**
+ * Whether an issue overlaps a changed line
+ * File-level issues (without line) match as soon as the file changed
+ * @param issue - Issue with component and location
+ * @param changed - Changed line ranges by file path
+ * @returns True when the issue is on a changed line
+ */
+export const isIssueOnChangedLines = (issue: LocatedIssue, changed: ChangedLines): boolean => {
+  const ranges = changed.get(componentToPath(issue.component));
+  if (!ranges) {
+    return false;
+  }
+
+  const startLine = issue.textRange?.startLine ?? issue.line;
+  if (startLine === undefined) {
+    return true;
+  }
+  const endLine = issue.textRange?.endLine ?? startLine;
+  return ranges.some((range) => range.start <= endLine && startLine <= range.end);
+};
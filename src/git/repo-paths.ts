@@ -0,0 +1,52 @@
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+import type { SonarIssuesResponse } from "../sonar/sonar-model.js";
+
+/**
+ * Path of the working directory relative to the root of the git repository
+ * Sonar reports paths relative to the project base directory, assumed to be the working directory
+ * @returns Prefix ending with "/" (e.g. "packages/api/"), or "" at the repository root or outside git
+ */
+export const getRepoPathPrefix = (): string => {
+  try {
+    return execFileSync("git", ["rev-parse", "--show-prefix"], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * Prefix turning the component paths of a fetch output into repository-relative paths
+ * Monorepo outputs (with `sonarflow.projects`) are already relative to the repository root
+ * @param issues - Content of issues.json
+ * @returns Result of getRepoPathPrefix, or "" for a monorepo output
+ */
+export const getOutputPathPrefix = (issues: SonarIssuesResponse): string =>
+  issues.sonarflow?.projects ? "" : getRepoPathPrefix();
+
+/**
+ * Converts a path relative to the Sonar project into a path relative to the repository root
+ * @param filePath - Path relative to the working directory
+ * @param prefix - Result of getRepoPathPrefix
+ * @returns POSIX path relative to the repository root
+ */
+export const toRepoPath = (filePath: string, prefix: string): string =>
+  path.posix.normalize(`${prefix}${filePath.replace(/\\/g, "/")}`);
+
+/**
+ * SHA of the commit checked out in the working directory
+ * @returns Commit SHA, or null outside a git repository
+ */
+export const getHeadCommit = (): string | null => {
+  try {
+    return execFileSync("git", ["rev-parse", "HEAD"], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,170 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { ExportInput } from "../export/export-formats.js";
+import { issueQualities, issueSeverity, measureValue } from "../report/report-model.js";
+
+/**
+ * Directory of the history store, inside the fetch output directory
+ */
+export const HISTORY_DIR = "history";
+
+/**
+ * Index of all recorded runs, one JSON entry per line (oldest first)
+ */
+const INDEX_FILE = "index.jsonl";
+
+/**
+ * Metrics recorded for each run, when measures.json has them
+ */
+const TRACKED_METRICS = [
+  "coverage",
+  "new_coverage",
+  "duplicated_lines_density",
+  "new_duplicated_lines_density",
+];
+
+/**
+ * Summary of a fetch, as recorded in the history index
+ */
+export interface HistoryEntry {
+  /** Name of the run directory holding the full snapshot */
+  id: string;
+  timestamp: string;
+  source?: string;
+  branch?: string;
+  pullRequest?: string;
+  commit?: string;
+  issues: {
+    total: number;
+    bySeverity: Record<string, number>;
+    byQuality: Record<string, number>;
+  };
+  hotspots: number;
+  /** Tracked metric values (numbers), by metric key */
+  measures: Record<string, number>;
+}
+
+/**
+ * Scope of a run, used in run directory names and filters
+ * @param entry - Branch and PR of the run
+ * @returns "pr-<id>", the branch name or "unknown"
+ */
+export const runScope = (entry: Pick<HistoryEntry, "branch" | "pullRequest">): string =>
+  entry.pullRequest ? `pr-${entry.pullRequest}` : (entry.branch ?? "unknown");
+
+/**
+ * Increments a counter
+ * @param counts - Counters by label
+ * @param label - Label to increment
+ */
+const increment = (counts: Record<string, number>, label: string): void => {
+  counts[label] = (counts[label] ?? 0) + 1;
+};
+
+/**
+ * Summarizes a fetch output for the history index
+ * @param input - Fetched issues, hotspots and measures
+ * @param id - Run directory name
+ * @param commit - Commit SHA of the working directory
+ * @returns History entry
+ */
+const summarize = (input: ExportInput, id: string, commit?: string | null): HistoryEntry => {
+  const metadata = input.issues.sonarflow;
+  const bySeverity: Record<string, number> = {};
+  const byQuality: Record<string, number> = {};
+  for (const issue of input.issues.issues ?? []) {
+    increment(bySeverity, issueSeverity(issue));
+    for (const quality of issueQualities(issue)) {
+      increment(byQuality, quality);
+    }
+  }
+
+  const measures: Record<string, number> = {};
+  for (const measure of input.measures?.component.measures ?? []) {
+    const value = Number(measureValue(measure));
+    if (TRACKED_METRICS.includes(measure.metric) && Number.isFinite(value)) {
+      measures[measure.metric] = value;
+    }
+  }
+
+  return {
+    id,
+    timestamp: metadata?.generatedAt ?? new Date().toISOString(),
+    source: metadata?.source,
+    branch: metadata?.branch,
+    pullRequest: metadata?.pullRequest,
+    ...(commit && { commit }),
+    issues: { total: input.issues.issues?.length ?? 0, bySeverity, byQuality },
+    hotspots: input.hotspots?.hotspots?.length ?? 0,
+    measures,
+  };
+};
+
+/**
+ * Records a fetch in the history store
+ * The full snapshot goes to `history/<timestamp>_<branch or pr>_<sha>/` and a summary line
+ * is appended to `history/index.jsonl`
+ * @param outputDir - Fetch output directory
+ * @param input - Fetched issues, hotspots and measures
+ * @param commit - Commit SHA of the working directory
+ * @returns Recorded entry
+ */
+export const appendHistory = (
+  outputDir: string,
+  input: ExportInput,
+  commit?: string | null
+): HistoryEntry => {
+  const metadata = input.issues.sonarflow;
+  const timestamp = metadata?.generatedAt ?? new Date().toISOString();
+  const scope = runScope({ branch: metadata?.branch, pullRequest: metadata?.pullRequest });
+  const id = [
+    timestamp.replace(/[:.]/g, "-"),
+    scope.replace(/[^\w.-]+/g, "-"),
+    ...(commit ? [commit.substring(0, 7)] : []),
+  ].join("_");
+
+  const runDir = path.join(outputDir, HISTORY_DIR, id);
+  fs.mkdirSync(runDir, { recursive: true });
+  fs.writeFileSync(path.join(runDir, "issues.json"), JSON.stringify(input.issues, null, 2));
+  if (input.measures) {
+    fs.writeFileSync(path.join(runDir, "measures.json"), JSON.stringify(input.measures, null, 2));
+  }
+  if (input.hotspots) {
+    fs.writeFileSync(
+      path.join(runDir, "security-hotspots.json"),
+      JSON.stringify(input.hotspots, null, 2)
+    );
+  }
+
+  const entry = summarize(input, id, commit);
+  fs.appendFileSync(path.join(outputDir, HISTORY_DIR, INDEX_FILE), `${JSON.stringify(entry)}\n`);
+  return entry;
+};
+
+/**
+ * Reads the history index, oldest run first
+ * @param outputDir - Fetch output directory
+ * @param filter - Optional branch or PR the runs must match
+ * @returns Recorded entries
+ */
+export const readHistory = (
+  outputDir: string,
+  filter: { branch?: string; pullRequest?: string } = {}
+): HistoryEntry[] => {
+  const indexPath = path.join(outputDir, HISTORY_DIR, INDEX_FILE);
+  if (!fs.existsSync(indexPath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(indexPath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as HistoryEntry)
+    .filter(
+      (entry) =>
+        (!filter.branch || entry.branch === filter.branch) &&
+        (!filter.pullRequest || entry.pullRequest === filter.pullRequest)
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
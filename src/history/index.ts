@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import { resolveOutputDir } from "../export/export-formats.js";
+import { HISTORY_DIR, readHistory } from "./history-store.js";
+import { buildTrend, printTrend } from "./trend.js";
+import { configureTrendCommand, type TrendOptions } from "./trend-options.js";
+
+/**
+ * Charts the recorded fetch history
+ * @param options - Trend command options
+ */
+const showTrend = (options: TrendOptions): void => {
+  try {
+    const outputDir = resolveOutputDir(options.input);
+    const entries = readHistory(outputDir, { branch: options.branch, pullRequest: options.pr });
+    if (entries.length === 0 && !options.json) {
+      console.log(
+        chalk.yellow(
+          `⚠️ No runs recorded in ${path.join(outputDir, HISTORY_DIR)}${options.branch || options.pr ? " for this branch/PR" : ""}. Run sonarflow fetch first.`
+        )
+      );
+      return;
+    }
+
+    const trend = buildTrend(entries.slice(-options.limit));
+    if (options.output) {
+      const filePath = path.resolve(options.output);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(trend, null, 2));
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(trend, null, 2));
+      return;
+    }
+
+    printTrend(trend);
+    if (options.output) {
+      console.log(chalk.blue(`📁 Saved to: ${path.resolve(options.output)}`));
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error reading history: ${msg}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureTrendCommand(new Command("sonarflow trend"));
+program.parse(process.argv);
+
+showTrend(program.opts<TrendOptions>());
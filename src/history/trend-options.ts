@@ -0,0 +1,48 @@
+import { type Command, InvalidArgumentError } from "commander";
+
+/**
+ * Options of the trend command, as parsed by commander
+ */
+export interface TrendOptions {
+  /** Only runs of this branch */
+  branch?: string;
+  /** Only runs of this pull request */
+  pr?: string;
+  /** Maximum number of (most recent) runs */
+  limit: number;
+  /** Print the trend as JSON instead of charts */
+  json?: boolean;
+  /** Also write the JSON trend to this file */
+  output?: string;
+  /** Fetch output directory holding the history */
+  input?: string;
+}
+
+/**
+ * Validates the --limit value
+ * @param value - Raw option value
+ * @returns Positive number of runs
+ */
+const parseLimit = (value: string): number => {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new InvalidArgumentError("Expected a positive number of runs, e.g. --limit 10");
+  }
+  return limit;
+};
+
+/**
+ * Declares options of the trend command
+ * Shared by the sonarflow CLI (help and validation) and the trend script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureTrendCommand = (command: Command): Command =>
+  command
+    .description("Chart issues, coverage and duplication over the recorded fetch history")
+    .option("-b, --branch <name>", "Only runs of this branch")
+    .option("--pr <id>", "Only runs of this pull request")
+    .option("-n, --limit <runs>", "Number of most recent runs to show", parseLimit, 20)
+    .option("--json", "Print the trend as JSON instead of charts")
+    .option("-o, --output <file>", "Also write the JSON trend to this file")
+    .option("-i, --input <dir>", "Fetch output directory (default: outputPath or .sonarflow/)");
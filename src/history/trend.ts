@@ -0,0 +1,172 @@
+import chalk from "chalk";
+import { SEVERITY_ORDER } from "../report/report-model.js";
+import { type HistoryEntry, runScope } from "./history-store.js";
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * Time series derived from the history, one value per run (null when unknown)
+ */
+export interface Trend {
+  runs: Array<Pick<HistoryEntry, "id" | "timestamp" | "branch" | "pullRequest" | "commit">>;
+  series: {
+    issues: number[];
+    hotspots: number[];
+    bySeverity: Record<string, number[]>;
+    byQuality: Record<string, number[]>;
+    /** Overall coverage */
+    coverage: Array<number | null>;
+    /** Overall duplicated lines density */
+    duplication: Array<number | null>;
+    /** Coverage of new code, kept apart as it measures a different set of lines */
+    newCoverage: Array<number | null>;
+    /** Duplicated lines density of new code */
+    newDuplication: Array<number | null>;
+  };
+}
+
+/**
+ * Builds one series per label, with zeros for runs without that label
+ * @param entries - History entries
+ * @param pick - Counters of an entry
+ * @param order - Optional fixed order of labels
+ * @returns Series by label
+ */
+const seriesByLabel = (
+  entries: HistoryEntry[],
+  pick: (entry: HistoryEntry) => Record<string, number>,
+  order?: string[]
+): Record<string, number[]> => {
+  const labels = [...new Set(entries.flatMap((entry) => Object.keys(pick(entry))))];
+  if (order) {
+    labels.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  }
+  return Object.fromEntries(
+    labels.map((label) => [label, entries.map((entry) => pick(entry)[label] ?? 0)])
+  );
+};
+
+/**
+ * Builds the trend of a list of runs
+ * @param entries - History entries, oldest first
+ * @returns Trend
+ */
+export const buildTrend = (entries: HistoryEntry[]): Trend => ({
+  runs: entries.map(({ id, timestamp, branch, pullRequest, commit }) => ({
+    id,
+    timestamp,
+    branch,
+    pullRequest,
+    commit,
+  })),
+  series: {
+    issues: entries.map((entry) => entry.issues.total),
+    hotspots: entries.map((entry) => entry.hotspots),
+    bySeverity: seriesByLabel(entries, (entry) => entry.issues.bySeverity, SEVERITY_ORDER),
+    byQuality: seriesByLabel(entries, (entry) => entry.issues.byQuality),
+    coverage: entries.map((entry) => entry.measures.coverage ?? null),
+    duplication: entries.map((entry) => entry.measures.duplicated_lines_density ?? null),
+    newCoverage: entries.map((entry) => entry.measures.new_coverage ?? null),
+    newDuplication: entries.map((entry) => entry.measures.new_duplicated_lines_density ?? null),
+  },
+});
+
+/**
+ * Renders a series as a sparkline
+ * @param values - Series values (null for unknown)
+ * @returns Sparkline, with a space for unknown values
+ */
+export const sparkline = (values: Array<number | null>): string => {
+  const known = values.filter((value): value is number => value !== null);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return values
+    .map((value) => {
+      if (value === null) {
+        return " ";
+      }
+      const ratio = max === min ? 0.5 : (value - min) / (max - min);
+      return SPARK_CHARS[Math.round(ratio * (SPARK_CHARS.length - 1))];
+    })
+    .join("");
+};
+
+/**
+ * Formats the change between the first and last known values of a series
+ * @param values - Series values
+ * @param lowerIsBetter - Whether a decrease is an improvement (issues, duplication)
+ * @param unit - Unit appended to values
+ * @returns Colored "first → last (delta)" text
+ */
+const describeChange = (
+  values: Array<number | null>,
+  lowerIsBetter: boolean,
+  unit = ""
+): string => {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length === 0) {
+    return chalk.gray("n/a");
+  }
+  const first = known[0];
+  const last = known[known.length - 1];
+  const delta = Math.round((last - first) * 100) / 100;
+  const text = `${first}${unit} → ${last}${unit} (${delta > 0 ? "+" : ""}${delta}${unit})`;
+  if (delta === 0) {
+    return text;
+  }
+  return delta < 0 === lowerIsBetter ? chalk.green(text) : chalk.red(text);
+};
+
+/**
+ * Row of a new code metric, shown only when Sonar reported it for some run
+ * @param values - Series values
+ * @param lowerIsBetter - Whether a decrease is an improvement
+ * @returns Zero or one row
+ */
+const newCodeRow = (
+  values: Array<number | null>,
+  lowerIsBetter: boolean
+): Array<[string, Array<number | null>, boolean, string?]> =>
+  values.some((value) => value !== null) ? [["  new code", values, lowerIsBetter, "%"]] : [];
+
+/**
+ * Prints the trend as sparklines and a table of runs
+ * @param trend - Trend to print
+ */
+export const printTrend = (trend: Trend): void => {
+  const { series } = trend;
+  const rows: Array<[string, Array<number | null>, boolean, string?]> = [
+    ["Issues", series.issues, true],
+    ...Object.entries(series.bySeverity).map(([label, values]): [string, number[], boolean] => [
+      `  ${label}`,
+      values,
+      true,
+    ]),
+    ...Object.entries(series.byQuality).map(([label, values]): [string, number[], boolean] => [
+      `  ${label}`,
+      values,
+      true,
+    ]),
+    ["Hotspots", series.hotspots, true],
+    ["Coverage", series.coverage, false, "%"],
+    ...newCodeRow(series.newCoverage, false),
+    ["Duplication", series.duplication, true, "%"],
+    ...newCodeRow(series.newDuplication, true),
+  ];
+
+  console.log(chalk.blue(`\n📈 Trend over ${trend.runs.length} run(s)\n`));
+  const width = Math.max(...rows.map(([label]) => label.length));
+  for (const [label, values, lowerIsBetter, unit] of rows) {
+    console.log(
+      `${label.padEnd(width)}  ${sparkline(values)}  ${describeChange(values, lowerIsBetter, unit)}`
+    );
+  }
+
+  console.log(chalk.blue("\nRuns:"));
+  trend.runs.forEach((run, index) => {
+    const coverage = series.coverage[index];
+    console.log(
+      `  ${run.timestamp}  ${runScope(run).padEnd(20)}  ${(run.commit ?? "").substring(0, 7).padEnd(7)}  ${String(series.issues[index]).padStart(5)} issues${coverage !== null ? `  ${coverage}% coverage` : ""}`
+    );
+  });
+};
@@ -0,0 +1,203 @@
+import chalk from "chalk";
+import { createHttpError, type HttpError, NetworkError } from "./http-errors.js";
+
+/**
+ * Options accepted by httpRequest on top of the standard fetch options
+ */
+export interface HttpRequestOptions extends Omit<RequestInit, "signal"> {
+  /** Name of the remote service, used in error messages (default: "HTTP") */
+  service?: string;
+  /** Timeout of a single attempt in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Base delay of the exponential backoff in milliseconds (default: 500) */
+  retryBaseDelayMs?: number;
+  /** Longest wait accepted before a retry; longer waits fail immediately (default: 60000) */
+  maxRetryDelayMs?: number;
+  /**
+   * Also retry methods other than GET and HEAD on 5xx, network errors and timeouts.
+   * Such failures may come after the server applied the request, so only set it when
+   * repeating the request is harmless (default: false)
+   */
+  retryUnsafeMethods?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Statuses worth retrying: rate limiting and transient server failures
+ */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Methods retried on any transient failure; others only when rate limited
+ */
+const SAFE_METHODS = new Set(["GET", "HEAD"]);
+
+/**
+ * Statuses whose responses cannot have a body
+ */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reads the server-provided wait time from `Retry-After` (seconds or HTTP date)
+ * or from GitHub's `x-ratelimit-reset` (epoch seconds) when the limit is exhausted
+ * @param response - HTTP response
+ * @returns Milliseconds to wait, or undefined when the server did not say
+ */
+const getRetryAfterMs = (response: Response): number | undefined => {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (reset && response.headers.get("x-ratelimit-remaining") === "0") {
+    const resetEpoch = Number(reset);
+    if (Number.isFinite(resetEpoch)) {
+      return Math.max(0, resetEpoch * 1000 - Date.now());
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Whether the response signals an exhausted rate limit
+ * GitHub answers 403 (not 429) with `x-ratelimit-remaining: 0` for primary rate limits
+ * @param response - HTTP response
+ * @returns True when rate limited
+ */
+const isRateLimited = (response: Response): boolean =>
+  response.status === 429 ||
+  (response.status === 403 && response.headers.get("x-ratelimit-remaining") === "0");
+
+/**
+ * Exponential backoff with jitter
+ * @param attempt - Zero-based attempt number
+ * @param baseDelayMs - Base delay
+ * @returns Milliseconds to wait before the next attempt
+ */
+const backoffDelay = (attempt: number, baseDelayMs: number): number =>
+  baseDelayMs * 2 ** attempt + Math.floor(Math.random() * baseDelayMs);
+
+/**
+ * Performs an HTTP request with per-attempt timeouts and retries
+ *
+ * Rate limits (429, GitHub 403 with exhausted quota) are retried with exponential backoff,
+ * honouring `Retry-After` when present. Transient 5xx errors, network failures and timeouts are
+ * retried for GET and HEAD only, unless `retryUnsafeMethods` is set: the server may have applied
+ * a POST before failing, and repeating it would apply it twice.
+ * The timeout covers reading the body: the returned response is already buffered.
+ * Unsuccessful responses are turned into typed errors (AuthError, NotFoundError, RateLimitError,
+ * NetworkError, HttpError) so callers can tell failures apart.
+ * @param url - Request URL
+ * @param options - Fetch options plus retry/timeout settings
+ * @returns Successful (2xx) response
+ * @throws HttpError subclass when the request ultimately fails
+ */
+export const httpRequest = async (
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<Response> => {
+  const {
+    service = "HTTP",
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+    retryUnsafeMethods = false,
+    ...init
+  } = options;
+  const method = init.method ?? "GET";
+  const retryFailures = retryUnsafeMethods || SAFE_METHODS.has(method.toUpperCase());
+
+  let lastError: HttpError | undefined;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    let body: ArrayBuffer;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+      // Read under the same timer, so a stalled body times out like a stalled connection
+      body = await response.arrayBuffer();
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      const cause = error instanceof Error ? (error.cause ?? error) : error;
+      const reason = timedOut
+        ? `timed out after ${timeoutMs}ms`
+        : cause instanceof Error
+          ? cause.message
+          : String(cause);
+      lastError = new NetworkError(
+        `${service} request failed: ${reason}`,
+        { service, url, method },
+        timedOut
+      );
+
+      if (retryFailures && attempt < retries) {
+        const delay = backoffDelay(attempt, retryBaseDelayMs);
+        console.warn(chalk.yellow(`⚠️  ${lastError.message}, retrying in ${delay}ms...`));
+        await sleep(delay);
+        continue;
+      }
+      throw lastError;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) {
+      return new Response(NULL_BODY_STATUSES.has(response.status) ? null : body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+
+    const rateLimited = isRateLimited(response);
+    const retryAfterMs = getRetryAfterMs(response);
+    lastError = createHttpError(
+      {
+        service,
+        url,
+        method,
+        status: response.status,
+        statusText: response.statusText,
+        body: new TextDecoder().decode(body).substring(0, 200),
+      },
+      rateLimited,
+      retryAfterMs
+    );
+
+    const retryable = rateLimited || (retryFailures && RETRYABLE_STATUSES.has(response.status));
+    const delay = retryAfterMs ?? backoffDelay(attempt, retryBaseDelayMs);
+    if (!retryable || attempt >= retries || delay > maxRetryDelayMs) {
+      throw lastError;
+    }
+
+    console.warn(
+      chalk.yellow(
+        `⚠️  ${service} responded ${response.status}, retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1}/${retries})...`
+      )
+    );
+    await sleep(delay);
+  }
+
+  // Unreachable: the loop either returns or throws
+  throw lastError ?? new NetworkError(`${service} request failed`, { service, url, method });
+};
@@ -0,0 +1,138 @@
+/**
+ * Typed HTTP errors raised by the shared HTTP client
+ */
+
+type HttpErrorKind = "auth" | "not-found" | "rate-limit" | "network" | "http";
+
+interface HttpErrorDetails {
+  /** Human readable name of the remote service (e.g. "SonarQube", "GitHub") */
+  service: string;
+  url: string;
+  method: string;
+  status?: number;
+  statusText?: string;
+  /** First characters of the response body, if any */
+  body?: string;
+}
+
+/**
+ * Base class for all HTTP failures
+ */
+export class HttpError extends Error {
+  readonly kind: HttpErrorKind = "http";
+  readonly service: string;
+  readonly url: string;
+  readonly method: string;
+  readonly status?: number;
+  readonly body?: string;
+
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.service = details.service;
+    this.url = details.url;
+    this.method = details.method;
+    this.status = details.status;
+    this.body = details.body;
+  }
+}
+
+/**
+ * Authentication or authorization failure (HTTP 401/403)
+ */
+export class AuthError extends HttpError {
+  override readonly kind = "auth";
+}
+
+/**
+ * Resource not found (HTTP 404)
+ */
+export class NotFoundError extends HttpError {
+  override readonly kind = "not-found";
+}
+
+/**
+ * Rate limit exceeded (HTTP 429, or 403 with `x-ratelimit-remaining: 0`)
+ */
+export class RateLimitError extends HttpError {
+  override readonly kind = "rate-limit";
+  /** Milliseconds until the limit resets, when the server told us */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: HttpErrorDetails, retryAfterMs?: number) {
+    super(message, details);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Connection failure or timeout: no HTTP response was received
+ */
+export class NetworkError extends HttpError {
+  override readonly kind = "network";
+  readonly timedOut: boolean;
+
+  constructor(message: string, details: HttpErrorDetails, timedOut = false) {
+    super(message, details);
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * Builds the typed error matching an unsuccessful response
+ * @param details - Request/response details
+ * @param rateLimited - Whether the response signals an exhausted rate limit
+ * @param retryAfterMs - Milliseconds until the rate limit resets, if known
+ * @returns Typed HTTP error
+ */
+export const createHttpError = (
+  details: HttpErrorDetails,
+  rateLimited: boolean,
+  retryAfterMs?: number
+): HttpError => {
+  const summary =
+    `${details.service} API error: ${details.status} ${details.statusText ?? ""}`.trim();
+  const message = details.body ? `${summary}. ${details.body}` : summary;
+
+  if (rateLimited) {
+    return new RateLimitError(message, details, retryAfterMs);
+  }
+  if (details.status === 401 || details.status === 403) {
+    return new AuthError(message, details);
+  }
+  if (details.status === 404) {
+    return new NotFoundError(message, details);
+  }
+  return new HttpError(message, details);
+};
+
+/**
+ * Formats an error for CLI output, with a specific hint for each kind of HTTP failure
+ * @param error - Any thrown value
+ * @returns Message to display
+ */
+export const formatHttpError = (error: unknown): string => {
+  if (!(error instanceof HttpError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const tokenVariable = error.service === "SonarQube" ? "SONAR_TOKEN" : "GIT_TOKEN";
+  switch (error.kind) {
+    case "auth":
+      return `${error.service} rejected the credentials (HTTP ${error.status}). Check that ${tokenVariable} is set, not expired, and has access to ${error.url}`;
+    case "not-found":
+      return `${error.service} resource not found (HTTP 404): ${error.url}. Check project key, organization, branch or PR and the configured base URL`;
+    case "rate-limit": {
+      const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+      const wait =
+        retryAfterMs !== undefined ? ` Try again in ${Math.ceil(retryAfterMs / 1000)}s.` : "";
+      return `${error.service} rate limit exceeded.${wait}`;
+    }
+    case "network":
+      return error instanceof NetworkError && error.timedOut
+        ? `${error.service} did not respond in time: ${error.url}. Check your network/VPN or retry later`
+        : `Could not reach ${error.service}: ${error.message}. Check your network/VPN and the configured base URL`;
+    default:
+      return error.message;
+  }
+};
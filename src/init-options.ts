@@ -0,0 +1,106 @@
+import { type Command, Option } from "commander";
+
+/**
+ * Options of the init command, as parsed by commander
+ * Every answer of the setup has a flag; unset answers are prompted for, or take their
+ * auto-detected default with --yes
+ */
+export interface InitOptions {
+  /** Accept the default of every answer not passed as a flag, without prompting */
+  yes?: boolean;
+  /** Whether to show the animated banner */
+  banner: boolean;
+  repoName?: string;
+  gitProvider?: "github" | "bitbucket" | "gitlab" | "azure-devops";
+  repositoryVisibility?: "private" | "public";
+  gitOrganization?: string;
+  githubApiUrl?: string;
+  bitbucketFlavor?: "cloud" | "server";
+  bitbucketBaseUrl?: string;
+  gitlabBaseUrl?: string;
+  azureDevopsProject?: string;
+  azureDevopsRepository?: string;
+  sonarOrganization?: string;
+  sonarProjectKey?: string;
+  sonarMode?: "standard" | "custom";
+  sonarBaseUrl?: string;
+  aiEditor?: "cursor" | "copilot (vscode)" | "windsurf" | "other";
+  rulesFlavor?: "safe" | "vibe-coder" | "yolo";
+  rulePath?: string;
+}
+
+/**
+ * Answer that cannot be resolved without prompting (--yes), or an invalid flag value
+ */
+export class InitOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InitOptionError";
+  }
+}
+
+/**
+ * Declares options of the init command
+ * Shared by the sonarflow CLI (help and validation) and the init script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureInitCommand = (command: Command): Command =>
+  command
+    .description("Initialize configuration for sonarflow")
+    .option("-y, --yes", "Do not prompt: use the flags below, and auto-detected defaults otherwise")
+    .option("--no-banner", "Skip the animated banner")
+    .option("--repo-name <name>", "Repository name (default: package.json name or folder name)")
+    .addOption(
+      new Option(
+        "--git-provider <provider>",
+        "Git provider (default: from package.json repository)"
+      ).choices(["github", "bitbucket", "gitlab", "azure-devops"])
+    )
+    .addOption(
+      new Option(
+        "--repository-visibility <visibility>",
+        "Repository visibility (default: private when package.json is private)"
+      ).choices(["private", "public"])
+    )
+    .option(
+      "--git-organization <org>",
+      "Repository organization; GitLab group path, Azure DevOps organization or Bitbucket Server project key"
+    )
+    .option("--github-api-url <url>", "GitHub API URL, for GitHub Enterprise Server")
+    .addOption(
+      new Option("--bitbucket-flavor <flavor>", "Bitbucket flavor").choices(["cloud", "server"])
+    )
+    .option("--bitbucket-base-url <url>", "Bitbucket Server / Data Center URL")
+    .option("--gitlab-base-url <url>", "GitLab URL (default: https://gitlab.com)")
+    .option("--azure-devops-project <project>", "Azure DevOps project")
+    .option("--azure-devops-repository <name>", "Azure DevOps repository (default: repo name)")
+    .option("--sonar-organization <org>", "Sonar organization (required in standard mode)")
+    .option(
+      "--sonar-project-key <key>",
+      "Sonar project key (default: from .sonarlint/connectedMode.json, or the repo name)"
+    )
+    .addOption(
+      new Option(
+        "--sonar-mode <mode>",
+        "Sonar mode: standard (SonarCloud) or custom (self-hosted SonarQube)"
+      ).choices(["standard", "custom"])
+    )
+    .option("--sonar-base-url <url>", "SonarQube URL (required in custom mode)")
+    .addOption(
+      new Option(
+        "--ai-editor <editor>",
+        "AI editor (default: detected from the workspace)"
+      ).choices(["cursor", "copilot (vscode)", "windsurf", "other"])
+    )
+    .addOption(
+      new Option("--rules-flavor <flavor>", "Rules flavor (default: safe)").choices([
+        "safe",
+        "vibe-coder",
+        "yolo",
+      ])
+    )
+    .option(
+      "--rule-path <path>",
+      "Path of the AI editor rule file (default: depends on the editor)"
+    );
@@ -1,13 +1,17 @@
 #!/usr/bin/env node
 
+import { execSync } from "node:child_process";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { input, select } from "@inquirer/prompts";
 import chalk from "chalk";
+import { Command } from "commander";
 import figlet from "figlet";
 import fs from "fs-extra";
 import gradient from "gradient-string";
 import ora from "ora";
+import { configSchemaUrl } from "./config/config-schema.js";
+import { configureInitCommand, InitOptionError, type InitOptions } from "./init-options.js";
 
 const colors = ["#A4A5A7", "#C74600", "#EB640A", "#F2A65D"];
 const dynamicGradient = gradient(colors);
@@ -25,11 +29,19 @@ interface PackageJson {
   [key: string]: unknown;
 }
 
+type GitProvider = "github" | "bitbucket" | "gitlab" | "azure-devops";
+
 interface InitAnswers {
   repoName: string;
-  gitProvider: "github" | "bitbucket";
+  gitProvider: GitProvider;
   repositoryVisibility: "private" | "public";
   gitOrganization?: string;
+  githubApiUrl?: string;
+  bitbucketFlavor?: "cloud" | "server";
+  bitbucketBaseUrl?: string;
+  gitlabBaseUrl?: string;
+  azureDevOpsProject?: string;
+  azureDevOpsRepository?: string;
 
   sonarOrganization?: string;
   sonarProjectKey: string;
@@ -43,9 +55,15 @@ interface InitAnswers {
 
 interface Config {
   repoName: string;
-  gitProvider: "github" | "bitbucket";
+  gitProvider: GitProvider;
   repositoryVisibility: "private" | "public";
   gitOrganization?: string;
+  githubApiUrl?: string;
+  bitbucketFlavor?: "cloud" | "server";
+  bitbucketBaseUrl?: string;
+  gitlabBaseUrl?: string;
+  azureDevOpsProject?: string;
+  azureDevOpsRepository?: string;
 
   sonarOrganization?: string;
   sonarProjectKey: string;
@@ -58,7 +76,11 @@ interface Config {
   rulePath: string;
 }
 
-const runInit = async (): Promise<void> => {
+/**
+ * Runs the setup: prompts for each answer, unless passed as a flag or accepted with --yes
+ * @param options - Init command options
+ */
+const runInit = async (options: InitOptions): Promise<void> => {
   console.log(dynamicGradient("Welcome to sonarflow setup!\n"));
 
   // Load sonarflow package.json to get version for schema URL
@@ -66,8 +88,7 @@ const runInit = async (): Promise<void> => {
   const sonarflowPackageJson = (await fs.readJson(sonarflowPackageJsonPath)) as {
     version: string;
   };
-  const schemaVersion = sonarflowPackageJson.version;
-  const schemaUrl = `https://raw.githubusercontent.com/bitrockteam/sonarflow/v${schemaVersion}/schemas/sonarflowrc.schema.json`;
+  const schemaUrl = configSchemaUrl(sonarflowPackageJson.version);
 
   // Load package.json to derive sensible defaults
   const pkgPath = path.join(process.cwd(), "package.json");
@@ -90,7 +111,59 @@ const runInit = async (): Promise<void> => {
     typeof pkg.name === "string" && pkg.name.trim()
       ? pkg.name.trim()
       : path.basename(process.cwd());
-  const defaultGitProvider = pkg.repository?.url?.includes("bitbucket") ? "bitbucket" : "github";
+  const repositoryUrl = pkg.repository?.url ?? "";
+  const detectGitProvider = (): GitProvider => {
+    if (repositoryUrl.includes("bitbucket")) return "bitbucket";
+    if (repositoryUrl.includes("gitlab")) return "gitlab";
+    if (repositoryUrl.includes("dev.azure.com") || repositoryUrl.includes("visualstudio.com")) {
+      return "azure-devops";
+    }
+    return "github";
+  };
+  const defaultGitProvider = detectGitProvider();
+  // Self-managed GitLab: reuse the host of the repository URL (e.g. git+https://gitlab.corp/group/repo.git)
+  const defaultGitlabBaseUrl = (() => {
+    if (process.env.GITLAB_BASE_URL) return process.env.GITLAB_BASE_URL;
+    const hostMatch = /^(?:git\+)?https?:\/\/([^/]+)/.exec(repositoryUrl);
+    if (hostMatch && repositoryUrl.includes("gitlab")) {
+      return `https://${hostMatch[1].replace(/^[^@]+@/, "")}`;
+    }
+    return "https://gitlab.com";
+  })();
+  // GitHub Enterprise Server: derive the API URL from the `origin` remote host
+  // (https://host/..., git@host:..., ssh://git@host:port/...), asked only for GitHub repositories
+  const detectGithubApiUrl = (): string => {
+    if (process.env.GITHUB_API_URL) return process.env.GITHUB_API_URL;
+    try {
+      const remoteUrl = execSync("git remote get-url origin", {
+        stdio: ["ignore", "pipe", "ignore"],
+      })
+        .toString()
+        .trim();
+      const host = /^(?:[\w+]+:\/\/)?(?:[^@/]+@)?([^/:]+)/.exec(remoteUrl)?.[1];
+      // Hosts of the other providers (e.g. a GitHub mirror of a GitLab origin) are not GHES
+      const otherProvider = ["bitbucket", "gitlab", "dev.azure.com", "visualstudio.com"].some(
+        (name) => host?.includes(name)
+      );
+      if (host && host !== "github.com" && !otherProvider) {
+        return `https://${host}/api/v3`;
+      }
+    } catch {
+      // No git remote: fall back to github.com
+    }
+    return "https://api.github.com";
+  };
+
+  // Bitbucket Server: any bitbucket host other than bitbucket.org
+  const defaultBitbucketBaseUrl = (() => {
+    if (process.env.BITBUCKET_BASE_URL) return process.env.BITBUCKET_BASE_URL;
+    const hostMatch = /^(?:git\+)?https?:\/\/([^/]+)/.exec(repositoryUrl);
+    const host = hostMatch?.[1].replace(/^[^@]+@/, "");
+    if (host?.includes("bitbucket") && !host.endsWith("bitbucket.org")) {
+      return `https://${host}`;
+    }
+    return undefined;
+  })();
   const defaultVisibility = pkg.private === true ? "private" : "public";
   const defaultGitOrganization = defaultRepoName.includes("@")
     ? defaultRepoName.split("/")[0]
@@ -110,7 +183,11 @@ const runInit = async (): Promise<void> => {
   };
   const defaultAiEditor = autoDetectAiEditor();
 
-  const autoDetectSonarModeAndProjectKey = () => {
+  const autoDetectSonarModeAndProjectKey = (): {
+    sonarMode: "standard" | "custom";
+    sonarQubeUri?: string;
+    sonarProjectKey: string;
+  } => {
     const connectedModePath = path.join(process.cwd(), ".sonarlint/connectedMode.json");
     if (fs.pathExistsSync(connectedModePath)) {
       const connectedMode = JSON.parse(fs.readFileSync(connectedModePath as string, "utf8"));
@@ -151,23 +228,128 @@ const runInit = async (): Promise<void> => {
     return ".rules/sonarflow-autofix.md";
   };
 
+  /**
+   * Answers a text question: from its flag, from its default with --yes, or with a prompt
+   * @param flag - Flag of the answer, used in error messages
+   * @param value - Value passed with the flag
+   * @param question - Prompt, with its default and validation
+   * @returns Answer
+   * @throws InitOptionError when the flag value, or the default with --yes, is not valid
+   */
+  const ask = async (
+    flag: string,
+    value: string | undefined,
+    question: { message: string; default?: string; validate?: (val: string) => boolean | string }
+  ): Promise<string> => {
+    if (value === undefined && !options.yes) {
+      return input(question);
+    }
+    const answer = value ?? question.default ?? "";
+    const valid = question.validate?.(answer) ?? true;
+    if (valid !== true) {
+      throw new InitOptionError(
+        value === undefined
+          ? `Missing required value, pass ${flag}: ${valid}`
+          : `Invalid ${flag}: ${valid}`
+      );
+    }
+    return answer;
+  };
+
+  /**
+   * Answers a choice: from its flag (checked by commander), from its default with --yes,
+   * or with a prompt
+   * @param value - Value passed with the flag
+   * @param question - Prompt, with its choices and default
+   * @returns Answer
+   */
+  const choose = async <T extends string>(
+    value: T | undefined,
+    question: { message: string; choices: Array<{ name: string; value: T }>; default: T }
+  ): Promise<T> => {
+    if (value === undefined && !options.yes) {
+      return select<T>(question);
+    }
+    return value ?? question.default;
+  };
+
   let answers: InitAnswers;
   try {
-    const repoName = await input({
+    const repoName = await ask("--repo-name", options.repoName, {
       message: "Repository name?",
       default: defaultRepoName,
     });
 
-    const gitProvider = await select<"github" | "bitbucket">({
+    const gitProvider = await choose<GitProvider>(options.gitProvider, {
       message: "Git provider:",
       choices: [
         { name: "github", value: "github" },
         { name: "bitbucket", value: "bitbucket" },
+        { name: "gitlab", value: "gitlab" },
+        { name: "azure devops", value: "azure-devops" },
       ],
       default: defaultGitProvider,
     });
 
-    const repositoryVisibility = await select<"private" | "public">({
+    let githubApiUrl: string | undefined;
+    if (gitProvider === "github") {
+      githubApiUrl = await ask("--github-api-url", options.githubApiUrl, {
+        message:
+          "GitHub API URL (GitHub Enterprise Server, e.g., https://ghe.mycompany.com/api/v3):",
+        default: detectGithubApiUrl(),
+        validate: (val: string) => {
+          const trimmed = (val ?? "").trim();
+          return /^https?:\/\//.test(trimmed) ? true : "Provide a valid http(s) URL for GitHub";
+        },
+      });
+      githubApiUrl = githubApiUrl.trim().replace(/\/+$/, "");
+      // Keep the configuration minimal for github.com
+      if (githubApiUrl === "https://api.github.com") {
+        githubApiUrl = undefined;
+      }
+    }
+
+    let bitbucketFlavor: "cloud" | "server" | undefined;
+    let bitbucketBaseUrl: string | undefined;
+    if (gitProvider === "bitbucket") {
+      bitbucketFlavor = await choose<"cloud" | "server">(options.bitbucketFlavor, {
+        message: "Bitbucket flavor:",
+        choices: [
+          { name: "cloud (bitbucket.org)", value: "cloud" },
+          { name: "server (self-hosted Server / Data Center)", value: "server" },
+        ],
+        default: defaultBitbucketBaseUrl ? "server" : "cloud",
+      });
+
+      if (bitbucketFlavor === "server") {
+        bitbucketBaseUrl = await ask("--bitbucket-base-url", options.bitbucketBaseUrl, {
+          message: "Bitbucket Server URL (base, e.g., https://bitbucket.mycompany.com):",
+          default: defaultBitbucketBaseUrl,
+          validate: (val: string) => {
+            const trimmed = (val ?? "").trim();
+            return /^https?:\/\//.test(trimmed)
+              ? true
+              : "Provide a valid http(s) URL for Bitbucket Server";
+          },
+        });
+        bitbucketBaseUrl = bitbucketBaseUrl.trim().replace(/\/+$/, "");
+      }
+    }
+
+    let gitlabBaseUrl: string | undefined;
+    if (gitProvider === "gitlab") {
+      gitlabBaseUrl = await ask("--gitlab-base-url", options.gitlabBaseUrl, {
+        message: "GitLab URL (base, e.g., https://gitlab.mycompany.com):",
+        default: defaultGitlabBaseUrl,
+        validate: (val: string) => {
+          const trimmed = (val ?? "").trim();
+          return /^https?:\/\//.test(trimmed) ? true : "Provide a valid http(s) URL for GitLab";
+        },
+      });
+      gitlabBaseUrl = gitlabBaseUrl.trim().replace(/\/+$/, "");
+    }
+
+    const repositoryVisibility = await choose<"private" | "public">(options.repositoryVisibility, {
       message: "Repository visibility:",
       choices: [
         { name: "private", value: "private" },
@@ -176,31 +358,66 @@ const runInit = async (): Promise<void> => {
       default: defaultVisibility as "private" | "public",
     });
 
-    let gitOrganization = await input({
-      message: "Repository organization:",
+    let gitOrganization = await ask("--git-organization", options.gitOrganization, {
+      message:
+        gitProvider === "gitlab"
+          ? "Repository group (full path, e.g. group/subgroup):"
+          : gitProvider === "azure-devops"
+            ? "Azure DevOps organization:"
+            : bitbucketFlavor === "server"
+              ? "Bitbucket project key:"
+              : "Repository organization:",
       default: defaultGitOrganization ?? "",
       validate: (val: string) => {
         const trimmed = (val ?? "").trim();
-        if (gitProvider === "bitbucket" || repositoryVisibility === "private") {
-          return trimmed ? true : "Organization is required for Bitbucket or private repositories";
+        if (gitProvider !== "github" || repositoryVisibility === "private") {
+          return trimmed
+            ? true
+            : "Organization is required for Bitbucket, GitLab, Azure DevOps or private repositories";
         }
         return true;
       },
     });
     gitOrganization = gitOrganization.trim();
 
-    const aiEditor = await select<"cursor" | "copilot (vscode)" | "windsurf" | "other">({
-      message: "AI editor:",
-      choices: [
-        { name: "cursor", value: "cursor" },
-        { name: "copilot (vscode)", value: "copilot (vscode)" },
-        { name: "windsurf", value: "windsurf" },
-        { name: "other", value: "other" },
-      ],
-      default: defaultAiEditor,
-    });
+    let azureDevOpsProject: string | undefined;
+    let azureDevOpsRepository: string | undefined;
+    if (gitProvider === "azure-devops") {
+      azureDevOpsProject = await ask("--azure-devops-project", options.azureDevopsProject, {
+        message: "Azure DevOps project:",
+        validate: (val: string) => {
+          const trimmed = (val ?? "").trim();
+          return trimmed ? true : "Project is required for Azure DevOps";
+        },
+      });
+      azureDevOpsProject = azureDevOpsProject.trim();
+
+      azureDevOpsRepository = await ask(
+        "--azure-devops-repository",
+        options.azureDevopsRepository,
+        {
+          message: "Azure DevOps repository:",
+          default: repoName.split("/").pop() || repoName,
+        }
+      );
+      azureDevOpsRepository = azureDevOpsRepository.trim() || undefined;
+    }
+
+    const aiEditor = await choose<"cursor" | "copilot (vscode)" | "windsurf" | "other">(
+      options.aiEditor,
+      {
+        message: "AI editor:",
+        choices: [
+          { name: "cursor", value: "cursor" },
+          { name: "copilot (vscode)", value: "copilot (vscode)" },
+          { name: "windsurf", value: "windsurf" },
+          { name: "other", value: "other" },
+        ],
+        default: defaultAiEditor,
+      }
+    );
 
-    const sonarMode = await select<"standard" | "custom">({
+    const sonarMode = await choose<"standard" | "custom">(options.sonarMode, {
       message: "Sonar mode:",
       choices: [
         { name: "standard (SonarCloud)", value: "standard" },
@@ -209,20 +426,24 @@ const runInit = async (): Promise<void> => {
       default: defaultSonarMode,
     });
 
-    let sonarOrganization: string | undefined = await input({
-      message: "Sonar organization (required for standard mode):",
-      default: defaultSonarOrganization ?? "",
-      validate: (val: string) => {
-        const trimmed = (val ?? "").trim();
-        if (sonarMode === "standard") {
-          return trimmed ? true : "Sonar organization is required in standard mode";
-        }
-        return true;
-      },
-    });
+    let sonarOrganization: string | undefined = await ask(
+      "--sonar-organization",
+      options.sonarOrganization,
+      {
+        message: "Sonar organization (required for standard mode):",
+        default: defaultSonarOrganization ?? "",
+        validate: (val: string) => {
+          const trimmed = (val ?? "").trim();
+          if (sonarMode === "standard") {
+            return trimmed ? true : "Sonar organization is required in standard mode";
+          }
+          return true;
+        },
+      }
+    );
     sonarOrganization = sonarOrganization.trim() || undefined;
 
-    const sonarProjectKey = await input({
+    const sonarProjectKey = await ask("--sonar-project-key", options.sonarProjectKey, {
       message: "Sonar project key (project name):",
       default: (() => {
         if (defaultSonarProjectKey) return defaultSonarProjectKey;
@@ -238,7 +459,7 @@ const runInit = async (): Promise<void> => {
 
     let sonarBaseUrl: string = defaultSonarQubeUri ?? "";
     if (sonarMode === "custom") {
-      sonarBaseUrl = await input({
+      sonarBaseUrl = await ask("--sonar-base-url", options.sonarBaseUrl, {
         message: "Sonar URL (base, e.g., https://sonar.mycompany.com):",
         default: defaultSonarQubeUri,
         validate: (val: string) => {
@@ -251,7 +472,7 @@ const runInit = async (): Promise<void> => {
       sonarBaseUrl = sonarBaseUrl.trim();
     }
 
-    const rulesFlavor = await select<"safe" | "vibe-coder" | "yolo">({
+    const rulesFlavor = await choose<"safe" | "vibe-coder" | "yolo">(options.rulesFlavor, {
       message: "Rules flavor:",
       choices: [
         { name: "safe", value: "safe" },
@@ -262,7 +483,7 @@ const runInit = async (): Promise<void> => {
     });
 
     const defaultRulePath = getDefaultRulePath(aiEditor);
-    const rulePath = await input({
+    const rulePath = await ask("--rule-path", options.rulePath, {
       message: "Rule path:",
       default: defaultRulePath,
       validate: (val: string) => {
@@ -276,6 +497,12 @@ const runInit = async (): Promise<void> => {
       gitProvider,
       repositoryVisibility,
       gitOrganization,
+      githubApiUrl,
+      bitbucketFlavor,
+      bitbucketBaseUrl,
+      gitlabBaseUrl,
+      azureDevOpsProject,
+      azureDevOpsRepository,
       aiEditor,
       sonarOrganization,
       sonarProjectKey,
@@ -314,12 +541,18 @@ const runInit = async (): Promise<void> => {
     gitProvider: answers.gitProvider,
     repositoryVisibility: answers.repositoryVisibility,
     gitOrganization: answers.gitOrganization?.trim() || undefined,
+    githubApiUrl: answers.githubApiUrl,
+    bitbucketFlavor: answers.bitbucketFlavor,
+    bitbucketBaseUrl: answers.bitbucketBaseUrl,
+    gitlabBaseUrl: answers.gitlabBaseUrl,
+    azureDevOpsProject: answers.azureDevOpsProject,
+    azureDevOpsRepository: answers.azureDevOpsRepository,
 
     // sonar
     sonarOrganization: answers.sonarOrganization,
     sonarProjectKey: answers.sonarProjectKey,
     sonarMode: answers.sonarMode,
-    sonarBaseUrl: answers.sonarBaseUrl,
+    sonarBaseUrl: answers.sonarBaseUrl || undefined,
     publicSonar: false,
 
     // automation
@@ -490,9 +723,16 @@ const runBanner = async (): Promise<void> => {
   });
 };
 
-await runBanner();
+// Parse command line arguments
+const program = configureInitCommand(new Command("sonarflow init"));
+program.parse(process.argv);
+const options = program.opts<InitOptions>();
 
-await runInit().catch((error) => {
+if (options.banner) {
+  await runBanner();
+}
+
+await runInit(options).catch((error) => {
   // Handle any unexpected errors
   if (
     error &&
@@ -510,6 +750,10 @@ await runInit().catch((error) => {
     );
     process.exit(0);
   }
+  if (error instanceof InitOptionError) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(1);
+  }
   // For other errors, exit with error code
   console.error(chalk.red("\n❌ An unexpected error occurred:"));
   console.error(chalk.red(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,174 @@
+import http from "node:http";
+import { httpRequest } from "../http/http-client.js";
+import { createHttpError, NotFoundError } from "../http/http-errors.js";
+import {
+  ANNOTATIONS_PER_REQUEST,
+  type InsightsAnnotation,
+  type InsightsReport,
+} from "./code-insights.js";
+
+/**
+ * Authentication proxy of Bitbucket Pipelines: requests to http://api.bitbucket.org sent
+ * through it are authorized for the repository of the build, without credentials
+ */
+const PIPELINES_PROXY = { host: "localhost", port: 29418 };
+
+/**
+ * BitbucketInsightsClient - Publishes Code Insights reports on Bitbucket Cloud commits
+ */
+export class BitbucketInsightsClient {
+  private readonly repoUrl: string;
+
+  /**
+   * Creates a client for one repository
+   * @param workspace - Bitbucket workspace
+   * @param repoSlug - Repository slug
+   * @param authHeaders - Authentication headers, or null to go through the Pipelines proxy
+   */
+  constructor(
+    workspace: string,
+    repoSlug: string,
+    private readonly authHeaders: Record<string, string> | null
+  ) {
+    // The Pipelines proxy only accepts plain HTTP requests
+    const scheme = authHeaders ? "https" : "http";
+    this.repoUrl = `${scheme}://api.bitbucket.org/2.0/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repoSlug)}`;
+  }
+
+  /**
+   * Sends a request through the Pipelines proxy
+   * @param url - Absolute http:// URL
+   * @param method - HTTP method
+   * @param body - Serialized JSON body, if any
+   * @returns Response body
+   * @throws HttpError subclass when Bitbucket answers with an error status
+   */
+  private proxyRequest(url: string, method: string, body?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const request = http.request(
+        {
+          ...PIPELINES_PROXY,
+          method,
+          path: url,
+          headers: {
+            Host: new URL(url).host,
+            Accept: "application/json",
+            ...(body !== undefined && {
+              "Content-Type": "application/json",
+              "Content-Length": Buffer.byteLength(body),
+            }),
+          },
+          timeout: 30_000,
+        },
+        (response) => {
+          let text = "";
+          response.setEncoding("utf8");
+          response.on("data", (chunk: string) => {
+            text += chunk;
+          });
+          response.on("end", () => {
+            const status = response.statusCode ?? 0;
+            if (status >= 200 && status < 300) {
+              resolve(text);
+            } else {
+              reject(
+                createHttpError(
+                  {
+                    service: "Bitbucket",
+                    url,
+                    method,
+                    status,
+                    statusText: response.statusMessage,
+                    body: text.substring(0, 200),
+                  },
+                  status === 429
+                )
+              );
+            }
+          });
+        }
+      );
+      request.on("timeout", () => request.destroy(new Error("Bitbucket request timed out")));
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Performs a JSON request, with credentials or through the Pipelines proxy
+   * @param path - Path relative to the repository URL
+   * @param method - HTTP method
+   * @param body - JSON body, if any
+   * @returns Response body
+   */
+  private async request(path: string, method = "GET", body?: unknown): Promise<string> {
+    const url = `${this.repoUrl}${path}`;
+    const json = body !== undefined ? JSON.stringify(body) : undefined;
+    if (!this.authHeaders) {
+      return await this.proxyRequest(url, method, json);
+    }
+
+    const response = await httpRequest(url, {
+      service: "Bitbucket",
+      method,
+      // Reports and annotations are replaced by id, so repeating a write is harmless
+      retryUnsafeMethods: true,
+      headers: {
+        ...this.authHeaders,
+        Accept: "application/json",
+        ...(json !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: json,
+    });
+    return await response.text();
+  }
+
+  /**
+   * Gets the full hash of the head commit of a pull request
+   * @param prId - Pull request ID
+   * @returns Commit hash
+   */
+  async getPullRequestCommit(prId: string): Promise<string> {
+    const pr = JSON.parse(await this.request(`/pullrequests/${prId}`)) as {
+      source: { commit: { hash: string } };
+    };
+    // Pull requests only carry an abbreviated hash
+    const commit = JSON.parse(
+      await this.request(`/commit/${encodeURIComponent(pr.source.commit.hash)}`)
+    ) as { hash: string };
+    return commit.hash;
+  }
+
+  /**
+   * Replaces the report of a commit and its annotations
+   * The previous report is deleted first, so annotations of fixed issues do not linger
+   * @param commit - Commit hash
+   * @param reportId - Report identifier
+   * @param report - Report payload
+   * @param annotations - Annotations, at most 1000
+   */
+  async publishReport(
+    commit: string,
+    reportId: string,
+    report: InsightsReport,
+    annotations: InsightsAnnotation[]
+  ): Promise<void> {
+    const reportPath = `/commit/${encodeURIComponent(commit)}/reports/${encodeURIComponent(reportId)}`;
+    try {
+      await this.request(reportPath, "DELETE");
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+
+    await this.request(reportPath, "PUT", report);
+    for (let start = 0; start < annotations.length; start += ANNOTATIONS_PER_REQUEST) {
+      await this.request(
+        `${reportPath}/annotations`,
+        "POST",
+        annotations.slice(start, start + ANNOTATIONS_PER_REQUEST)
+      );
+    }
+  }
+}
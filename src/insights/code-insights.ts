@@ -0,0 +1,166 @@
+import type { NormalizedIssue, NormalizedSeverity } from "../export/normalize.js";
+import { getSonarFindingUrl, measureValue } from "../report/report-model.js";
+import type { SonarMeasuresResponse } from "../sonar/sonar-model.js";
+
+/**
+ * Bitbucket limits: annotations per report, per request, and summary length
+ */
+export const MAX_ANNOTATIONS = 1000;
+export const ANNOTATIONS_PER_REQUEST = 100;
+const MAX_SUMMARY_LENGTH = 450;
+
+/**
+ * Bitbucket allows at most 6 data items per report
+ */
+const MAX_REPORT_DATA = 6;
+
+/**
+ * Code Insights report, as sent to Bitbucket Cloud
+ */
+export interface InsightsReport {
+  title: string;
+  details: string;
+  report_type: "BUG" | "SECURITY" | "COVERAGE" | "TEST";
+  reporter: string;
+  link?: string;
+  result?: "PASSED" | "FAILED" | "PENDING";
+  data: Array<{
+    title: string;
+    type: "NUMBER" | "PERCENTAGE" | "TEXT" | "LINK" | "BOOLEAN";
+    value: number | string | boolean;
+  }>;
+}
+
+/**
+ * Code Insights annotation, as sent to Bitbucket Cloud
+ */
+export interface InsightsAnnotation {
+  external_id: string;
+  annotation_type: "VULNERABILITY" | "CODE_SMELL" | "BUG";
+  summary: string;
+  details?: string;
+  severity: "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+  path: string;
+  line?: number;
+  link?: string;
+}
+
+const ANNOTATION_SEVERITIES: Record<NormalizedSeverity, InsightsAnnotation["severity"]> = {
+  blocker: "CRITICAL",
+  critical: "CRITICAL",
+  major: "HIGH",
+  minor: "MEDIUM",
+  info: "LOW",
+};
+
+/**
+ * Metrics shown in the report, in display order
+ */
+const REPORT_METRICS: Array<{ metric: string; title: string }> = [
+  { metric: "new_coverage", title: "Coverage on new code" },
+  { metric: "coverage", title: "Coverage" },
+  { metric: "new_duplicated_lines_density", title: "Duplication on new code" },
+  { metric: "duplicated_lines_density", title: "Duplication" },
+];
+
+/**
+ * Links of the report and annotations back to the Sonar UI
+ */
+export interface InsightsLinks {
+  sonarUiUrl: string;
+  /** Sonar project of the report, and of the findings that do not name theirs */
+  projectKey: string;
+  scope: { branch?: string; pullRequest?: string };
+}
+
+/**
+ * Builds the Code Insights report of a fetch
+ * @param findings - Fetched issues and hotspots
+ * @param measures - Content of measures.json, if any
+ * @param gateStatus - Quality gate status (OK, WARN, ERROR), or null when unknown
+ * @param links - Sonar UI and project
+ * @returns Report payload
+ */
+export const buildInsightsReport = (
+  findings: NormalizedIssue[],
+  measures: SonarMeasuresResponse | null | undefined,
+  gateStatus: string | null,
+  links: InsightsLinks
+): InsightsReport => {
+  const issues = findings.filter((finding) => finding.kind === "issue").length;
+  const hotspots = findings.length - issues;
+  const data: InsightsReport["data"] = [
+    { title: "Issues", type: "NUMBER", value: issues },
+    { title: "Security hotspots", type: "NUMBER", value: hotspots },
+  ];
+
+  const byMetric = new Map(
+    (measures?.component.measures ?? []).map((measure) => [measure.metric, measure])
+  );
+  for (const { metric, title } of REPORT_METRICS) {
+    const measure = byMetric.get(metric);
+    const value = Number(measure ? measureValue(measure) : undefined);
+    if (Number.isFinite(value) && data.length < MAX_REPORT_DATA) {
+      data.push({ title, type: "PERCENTAGE", value });
+    }
+  }
+
+  const params = new URLSearchParams({ id: links.projectKey });
+  if (links.scope.pullRequest) {
+    params.set("pullRequest", links.scope.pullRequest);
+  } else if (links.scope.branch) {
+    params.set("branch", links.scope.branch);
+  }
+
+  return {
+    title: "SonarQube",
+    details:
+      gateStatus === null
+        ? `${issues} issue(s) and ${hotspots} security hotspot(s) reported by SonarQube.`
+        : `Quality gate ${gateStatus === "ERROR" ? "failed" : "passed"}: ${issues} issue(s) and ${hotspots} security hotspot(s) reported by SonarQube.`,
+    report_type: "BUG",
+    reporter: "sonarflow",
+    link: `${links.sonarUiUrl}/dashboard?${params.toString()}`,
+    ...(gateStatus !== null && { result: gateStatus === "ERROR" ? "FAILED" : "PASSED" }),
+    data,
+  };
+};
+
+/**
+ * Builds one annotation per finding, most severe first
+ * @param findings - Fetched issues and hotspots
+ * @param links - Sonar UI and project
+ * @returns Annotations, at most MAX_ANNOTATIONS
+ */
+export const buildAnnotations = (
+  findings: NormalizedIssue[],
+  links: InsightsLinks
+): InsightsAnnotation[] => {
+  const rank = Object.keys(ANNOTATION_SEVERITIES);
+  return [...findings]
+    .sort((a, b) => rank.indexOf(a.severity) - rank.indexOf(b.severity))
+    .slice(0, MAX_ANNOTATIONS)
+    .map((finding) => ({
+      external_id: finding.fingerprint,
+      annotation_type:
+        finding.type === "BUG"
+          ? "BUG"
+          : finding.type === "VULNERABILITY" || finding.kind === "hotspot"
+            ? "VULNERABILITY"
+            : "CODE_SMELL",
+      summary:
+        finding.message.length > MAX_SUMMARY_LENGTH
+          ? `${finding.message.substring(0, MAX_SUMMARY_LENGTH - 1)}…`
+          : finding.message,
+      details: finding.ruleName ? `${finding.rule}: ${finding.ruleName}` : finding.rule,
+      severity: ANNOTATION_SEVERITIES[finding.severity],
+      path: finding.path,
+      ...(finding.line !== undefined && { line: finding.line }),
+      link: getSonarFindingUrl(
+        links.sonarUiUrl,
+        finding.project ?? links.projectKey,
+        finding,
+        links.scope
+      ),
+    }));
+};
@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+
+import { execSync } from "node:child_process";
+import chalk from "chalk";
+import { Command } from "commander";
+import dotenv from "dotenv";
+import { loadExportInput, resolveOutputDir } from "../export/export-formats.js";
+import { normalizeIssues } from "../export/normalize.js";
+import { getHeadCommit, getOutputPathPrefix } from "../git/repo-paths.js";
+import { formatHttpError } from "../http/http-errors.js";
+import { getSonarUiUrl } from "../report/report-model.js";
+import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import { loadConfiguration } from "../versioning/project-config.js";
+import { BitbucketInsightsClient } from "./bitbucket-insights-client.js";
+import { buildAnnotations, buildInsightsReport, MAX_ANNOTATIONS } from "./code-insights.js";
+import { configureInsightsCommand, type InsightsOptions } from "./insights-options.js";
+
+dotenv.config();
+
+/**
+ * Publishes the fetched issues as a Code Insights report on the PR head commit
+ * In Bitbucket Pipelines without GIT_TOKEN, requests go through the Pipelines auth proxy
+ * @param options - Insights command options
+ */
+const publishInsights = async (options: InsightsOptions): Promise<void> => {
+  try {
+    const config = loadConfiguration();
+    if (config.gitProvider !== "bitbucket" || config.bitbucketFlavor === "server") {
+      throw new Error("sonarflow insights supports Bitbucket Cloud only");
+    }
+
+    const input = loadExportInput(resolveOutputDir(options.input));
+    const metadata = input.issues.sonarflow;
+    const findings = normalizeIssues(input, getOutputPathPrefix(input.issues));
+
+    const extractor = new SonarIssueExtractor(config);
+    const inPipelines = Boolean(process.env.BITBUCKET_BUILD_NUMBER);
+    const useProxy = inPipelines && !process.env.GIT_TOKEN;
+    const client = new BitbucketInsightsClient(
+      process.env.BITBUCKET_WORKSPACE || config.gitOrganization,
+      process.env.BITBUCKET_REPO_SLUG || config.repoName,
+      useProxy ? null : extractor.getBitbucketAuthHeaders()
+    );
+    if (useProxy) {
+      console.log(chalk.blue("🔧 Using the Bitbucket Pipelines authentication proxy"));
+    }
+
+    // Pull request: --pr, the PR issues.json was fetched for, the PR of the pipeline, or detection
+    let prId = options.pr || metadata?.pullRequest || process.env.BITBUCKET_PR_ID;
+    if (!prId && !metadata?.branch && !useProxy) {
+      const branch =
+        process.env.BITBUCKET_BRANCH ||
+        execSync("git branch --show-current", { encoding: "utf8" }).trim();
+      prId =
+        (await extractor.detectBitbucketPrId(branch, config.repoName, config.gitOrganization)) ??
+        undefined;
+    }
+
+    const commit =
+      options.commit ||
+      process.env.BITBUCKET_COMMIT ||
+      (prId ? await client.getPullRequestCommit(prId) : getHeadCommit());
+    if (!commit) {
+      throw new Error("No commit to annotate: pass --commit or run inside a git repository");
+    }
+
+    const scope = prId ? { pullRequest: prId } : { branch: metadata?.branch };
+    let gateStatus: string | null = null;
+    if (options.gate) {
+      try {
+        const gate = await extractor.fetchQualityGateStatus(config, scope);
+        gateStatus = gate.projectStatus.status === "NONE" ? null : gate.projectStatus.status;
+      } catch (error) {
+        console.warn(
+          chalk.yellow(`⚠️  Could not fetch the quality gate status: ${formatHttpError(error)}`)
+        );
+      }
+    }
+
+    const links = {
+      sonarUiUrl: getSonarUiUrl(config.sonarBaseUrl),
+      projectKey: config.sonarProjectKey || config.repoName,
+      scope,
+    };
+    const report = buildInsightsReport(findings, input.measures, gateStatus, links);
+    const annotations = buildAnnotations(findings, links);
+    if (findings.length > MAX_ANNOTATIONS) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  Bitbucket accepts ${MAX_ANNOTATIONS} annotations per report; ${findings.length - MAX_ANNOTATIONS} less severe finding(s) omitted`
+        )
+      );
+    }
+
+    if (options.dryRun) {
+      console.log(
+        JSON.stringify({ commit, reportId: options.reportId, report, annotations }, null, 2)
+      );
+      return;
+    }
+
+    await client.publishReport(commit, options.reportId, report, annotations);
+    console.log(
+      chalk.green(
+        `✅ Published Code Insights report "${options.reportId}" with ${annotations.length} annotation(s) on commit ${commit.substring(0, 12)}${report.result ? ` (${report.result})` : ""}`
+      )
+    );
+  } catch (error) {
+    console.error(chalk.red(`❌ Error publishing Code Insights report: ${formatHttpError(error)}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureInsightsCommand(new Command("sonarflow insights"));
+program.parse(process.argv);
+
+await publishInsights(program.opts<InsightsOptions>());
@@ -0,0 +1,47 @@
+import { type Command, Option } from "commander";
+import { parsePrId } from "../versioning/fetch-options.js";
+
+/**
+ * Options of the insights command, as parsed by commander
+ */
+export interface InsightsOptions {
+  /** Bitbucket pull request ID */
+  pr?: string;
+  /** Commit the report is attached to */
+  commit?: string;
+  /** Directory containing issues.json (default: outputPath or .sonarflow/) */
+  input?: string;
+  /** Identifier of the report on the commit */
+  reportId: string;
+  /** Whether to set the report result from the Sonar quality gate */
+  gate: boolean;
+  /** Print the report instead of publishing it */
+  dryRun?: boolean;
+}
+
+/**
+ * Declares options of the insights command
+ * Shared by the sonarflow CLI (help and validation) and the insights script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureInsightsCommand = (command: Command): Command =>
+  command
+    .description("Publish fetched issues as a Bitbucket Cloud Code Insights report")
+    .addOption(
+      new Option(
+        "--pr <id>",
+        "Pull request ID (default: PR of issues.json, BITBUCKET_PR_ID, or the PR of the current branch)"
+      ).argParser(parsePrId)
+    )
+    .option(
+      "--commit <sha>",
+      "Commit to annotate (default: BITBUCKET_COMMIT, the PR head commit, or HEAD)"
+    )
+    .option(
+      "-i, --input <dir>",
+      "Directory containing issues.json (default: outputPath or .sonarflow/)"
+    )
+    .option("--report-id <id>", "Identifier of the report on the commit", "sonarflow")
+    .option("--no-gate", "Do not set the report result from the Sonar quality gate")
+    .option("--dry-run", "Print the report and annotations without publishing them");
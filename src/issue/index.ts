@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+import chalk from "chalk";
+import { Command } from "commander";
+import dotenv from "dotenv";
+import { loadExportInput, resolveOutputDir } from "../export/export-formats.js";
+import { normalizeIssues } from "../export/normalize.js";
+import { getOutputPathPrefix } from "../git/repo-paths.js";
+import { formatHttpError } from "../http/http-errors.js";
+import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import { loadConfiguration } from "../versioning/project-config.js";
+import { configureIssueCommand, type IssueAction, type IssueOptions } from "./issue-options.js";
+import { applyTriage, resolveTriageTarget, selectIssues } from "./issue-triage.js";
+
+dotenv.config();
+
+/**
+ * Applies a triage action to one issue, or to the issues of issues.json matching the filters
+ * @param action - Triage action
+ * @param args - Positional arguments (key, value)
+ * @param options - Issue command options
+ */
+const triageIssues = async (
+  action: IssueAction,
+  args: [string | undefined, string | undefined],
+  options: IssueOptions
+): Promise<void> => {
+  try {
+    const target = resolveTriageTarget(action, args, options);
+    let keys: string[];
+    if (target.key) {
+      keys = [target.key];
+    } else {
+      const input = loadExportInput(resolveOutputDir(options.input));
+      const issues = selectIssues(
+        normalizeIssues(input, getOutputPathPrefix(input.issues)),
+        options
+      );
+      keys = issues.map((issue) => issue.key);
+      console.log(chalk.blue(`🔍 ${keys.length} issue(s) of issues.json match the filters`));
+      for (const issue of issues) {
+        const location = issue.line !== undefined ? `${issue.path}:${issue.line}` : issue.path;
+        console.log(`  ${issue.key}  ${issue.rule}  ${location}`);
+      }
+    }
+
+    if (options.dryRun || keys.length === 0) {
+      if (options.dryRun) {
+        console.log(
+          chalk.blue(`Dry run: ${action} ${keys.length} issue(s) with '${target.value}'`)
+        );
+      }
+      return;
+    }
+
+    if (!process.env.SONAR_TOKEN) {
+      throw new Error("SONAR_TOKEN is required to change issues");
+    }
+    const config = loadConfiguration();
+    const failed = await applyTriage(
+      new SonarIssueExtractor(config),
+      config,
+      action,
+      keys,
+      target.value
+    );
+    const succeeded = keys.length - failed.length;
+    if (succeeded > 0) {
+      console.log(chalk.green(`✅ Applied ${action} '${target.value}' to ${succeeded} issue(s)`));
+    }
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${keys.length} issue(s) could not be changed`);
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ Error triaging issues: ${formatHttpError(error)}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureIssueCommand(new Command("sonarflow issue"));
+for (const subcommand of program.commands) {
+  subcommand.action((key: string | undefined, value: string | undefined, options: IssueOptions) =>
+    triageIssues(subcommand.name() as IssueAction, [key, value], options)
+  );
+}
+await program.parseAsync(process.argv);
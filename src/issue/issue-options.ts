@@ -0,0 +1,129 @@
+import { type Command, Option } from "commander";
+
+/**
+ * Workflow transitions accepted by `sonarflow issue transition`
+ */
+export const ISSUE_TRANSITIONS = ["falsepositive", "wontfix", "confirm", "reopen"] as const;
+
+export type IssueTransition = (typeof ISSUE_TRANSITIONS)[number];
+
+/**
+ * Triage actions, one subcommand each
+ */
+export type IssueAction = "transition" | "comment" | "assign";
+
+/**
+ * Name of the value passed to each action, used in help and error messages
+ */
+export const TRIAGE_VALUE_NAMES: Record<IssueAction, string> = {
+  transition: "transition",
+  comment: "text",
+  assign: "login",
+};
+
+/**
+ * Options of the issue subcommands, as parsed by commander
+ */
+export interface IssueOptions {
+  /** Directory containing issues.json, for bulk mode (default: outputPath or .sonarflow/) */
+  input?: string;
+  /** Bulk mode: every issue of issues.json */
+  all?: boolean;
+  /** Bulk mode: only issues of this rule */
+  rule?: string;
+  /** Bulk mode: only issues of this severity */
+  severity?: string;
+  /** Bulk mode: only issues of this type */
+  type?: string;
+  /** Bulk mode: only issues under this path */
+  path?: string;
+  /** List the issues that would change without calling SonarQube */
+  dryRun?: boolean;
+}
+
+/**
+ * Declares the options shared by the issue subcommands: the bulk filters over issues.json
+ * @param command - Subcommand to configure
+ * @returns The configured subcommand
+ */
+const addTriageOptions = (command: Command): Command =>
+  command
+    .option(
+      "-i, --input <dir>",
+      "Directory containing issues.json, for bulk mode (default: outputPath or .sonarflow/)"
+    )
+    .option("--all", "Bulk mode: every issue of issues.json")
+    .option("--rule <key>", "Bulk mode: only issues of this rule (e.g. typescript:S1854)")
+    .addOption(
+      new Option("--severity <severity>", "Bulk mode: only issues of this severity").choices([
+        "blocker",
+        "critical",
+        "major",
+        "minor",
+        "info",
+      ])
+    )
+    .addOption(
+      new Option("--type <type>", "Bulk mode: only issues of this type").choices([
+        "BUG",
+        "VULNERABILITY",
+        "CODE_SMELL",
+      ])
+    )
+    .option("--path <prefix>", "Bulk mode: only issues in files under this path")
+    .option("--dry-run", "List the issues that would change without calling SonarQube");
+
+/**
+ * Declares a triage subcommand
+ * Both positionals are optional because bulk mode omits the issue key: `<key> <value>` for one
+ * issue, `<value>` with bulk filters. The triage script checks the arguments match the mode
+ * @param command - Issue command
+ * @param action - Triage action, the subcommand name
+ * @param description - Subcommand description
+ * @param valueDescription - Description of the value argument
+ */
+const addTriageSubcommand = (
+  command: Command,
+  action: IssueAction,
+  description: string,
+  valueDescription: string
+): void => {
+  const valueName = TRIAGE_VALUE_NAMES[action];
+  addTriageOptions(
+    command
+      .command(action)
+      .description(`${description}; in bulk mode, pass only the ${valueName}`)
+      .usage(
+        `<key> <${valueName}> | <${valueName}> --all|--rule|--severity|--type|--path [options]`
+      )
+      .argument("[key]", `Issue key, or the ${valueName} in bulk mode`)
+      .argument(`[${valueName}]`, `${valueDescription}, for a single issue`)
+  );
+};
+
+/**
+ * Declares the issue command and its transition, comment and assign subcommands
+ * Shared by the sonarflow CLI (help and validation) and the issue script (parsing);
+ * callers attach an action to each subcommand
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureIssueCommand = (command: Command): Command => {
+  command.description("Triage Sonar issues: change their status, comment on or assign them");
+
+  addTriageSubcommand(
+    command,
+    "transition",
+    `Change the status of an issue (${ISSUE_TRANSITIONS.join(", ")})`,
+    "Transition to apply"
+  );
+  addTriageSubcommand(command, "comment", "Comment on an issue", "Comment text (Markdown)");
+  addTriageSubcommand(
+    command,
+    "assign",
+    "Assign an issue to a user",
+    "SonarQube login of the assignee"
+  );
+
+  return command;
+};
@@ -0,0 +1,140 @@
+import chalk from "chalk";
+import type { NormalizedIssue } from "../export/normalize.js";
+import { formatHttpError } from "../http/http-errors.js";
+import type { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import type { ProjectConfig } from "../versioning/project-config.js";
+import {
+  ISSUE_TRANSITIONS,
+  type IssueAction,
+  type IssueOptions,
+  TRIAGE_VALUE_NAMES,
+} from "./issue-options.js";
+
+/**
+ * Issues changed in parallel in bulk mode
+ */
+const CONCURRENCY = 5;
+
+/**
+ * Issue selected by a triage command, and the value to apply
+ */
+export interface TriageTarget {
+  /** Issue key, or undefined in bulk mode */
+  key?: string;
+  value: string;
+}
+
+/**
+ * Whether the options select issues from issues.json
+ * @param options - Issue command options
+ * @returns True in bulk mode
+ */
+export const isBulkMode = (options: IssueOptions): boolean =>
+  Boolean(options.all || options.rule || options.severity || options.type || options.path);
+
+/**
+ * Resolves the positional arguments of a subcommand
+ * In bulk mode the issue key is omitted, so the only argument is the value
+ * @param action - Triage action
+ * @param args - Positional arguments (key, value)
+ * @param options - Issue command options
+ * @returns Issue key and value
+ * @throws Error when the arguments do not match the mode, or the transition is unknown
+ */
+export const resolveTriageTarget = (
+  action: IssueAction,
+  args: [string | undefined, string | undefined],
+  options: IssueOptions
+): TriageTarget => {
+  const [key, value] = args;
+  const valueName = TRIAGE_VALUE_NAMES[action];
+  let target: TriageTarget;
+  if (isBulkMode(options)) {
+    if (value !== undefined) {
+      throw new Error(
+        "Pass either an issue key or bulk filters (--all, --rule, --severity, --type, --path), not both"
+      );
+    }
+    if (key === undefined) {
+      throw new Error(`Missing ${valueName}: sonarflow issue ${action} <${valueName}> --all`);
+    }
+    target = { value: key };
+  } else if (key === undefined) {
+    throw new Error(`Missing issue key: sonarflow issue ${action} <key> <${valueName}>`);
+  } else if (value === undefined) {
+    throw new Error(`Missing ${valueName}: sonarflow issue ${action} <key> <${valueName}>`);
+  } else {
+    target = { key, value };
+  }
+
+  if (!target.value.trim()) {
+    throw new Error(`The ${valueName} cannot be empty`);
+  }
+  if (action === "transition" && !(ISSUE_TRANSITIONS as readonly string[]).includes(target.value)) {
+    throw new Error(
+      `Unknown transition '${target.value}'. Expected one of: ${ISSUE_TRANSITIONS.join(", ")}`
+    );
+  }
+  return target;
+};
+
+/**
+ * Selects the issues of issues.json matching the bulk filters
+ * Security hotspots are left out: they follow a separate review workflow
+ * @param findings - Normalized issues and hotspots
+ * @param options - Issue command options
+ * @returns Matching issues
+ */
+export const selectIssues = (
+  findings: NormalizedIssue[],
+  options: IssueOptions
+): NormalizedIssue[] => {
+  const prefix = options.path?.replace(/^\.\//, "").replace(/\/$/, "");
+  return findings.filter(
+    (finding) =>
+      finding.kind === "issue" &&
+      (!options.rule || finding.rule === options.rule) &&
+      (!options.severity || finding.severity === options.severity) &&
+      (!options.type || finding.type === options.type) &&
+      (!prefix || finding.path === prefix || finding.path.startsWith(`${prefix}/`))
+  );
+};
+
+/**
+ * Applies a triage action to a list of issues
+ * Failures are reported per issue and do not stop the others
+ * @param extractor - SonarQube extractor
+ * @param config - Configuration object
+ * @param action - Triage action
+ * @param keys - Issue keys
+ * @param value - Transition, comment text or login
+ * @returns Keys of the issues that could not be changed
+ */
+export const applyTriage = async (
+  extractor: SonarIssueExtractor,
+  config: ProjectConfig,
+  action: IssueAction,
+  keys: string[],
+  value: string
+): Promise<string[]> => {
+  const apply = {
+    transition: (key: string) => extractor.transitionIssue(config, key, value),
+    comment: (key: string) => extractor.commentIssue(config, key, value),
+    assign: (key: string) => extractor.assignIssue(config, key, value),
+  }[action];
+
+  const failed: string[] = [];
+  for (let start = 0; start < keys.length; start += CONCURRENCY) {
+    await Promise.all(
+      keys.slice(start, start + CONCURRENCY).map(async (key) => {
+        try {
+          await apply(key);
+        } catch (error) {
+          failed.push(key);
+          console.warn(chalk.yellow(`⚠️  Failed to ${action} ${key}: ${formatHttpError(error)}`));
+        }
+      })
+    );
+  }
+  return failed;
+};
@@ -7,7 +7,10 @@ import { fileURLToPath } from "node:url";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { formatHttpError, HttpError } from "../http/http-errors.js";
+import { RULES_FILE, type RulesCatalog } from "../rules/rules-catalog.js";
 import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import { loadConfiguration } from "../versioning/project-config.js";
 import { getRepoInfo } from "./tools/bitbucket.js";
 import { getQualityGateStatus } from "./tools/sonar.js";
 
@@ -71,20 +74,33 @@ server.tool(
   "bitbucket.getRepoInfo",
   "Fetches repository metadata from Bitbucket REST API",
   {
-    owner: z.string().describe("Repository owner/workspace name"),
-    repo: z.string().describe("Repository name"),
+    owner: z.string().describe("Repository owner/workspace name (project key for Server)"),
+    repo: z.string().describe("Repository name (slug for Server)"),
     token: z
       .string()
       .optional()
-      .describe("Optional Bitbucket app password token for authentication"),
+      .describe(
+        "Optional Bitbucket app password token (HTTP access token for Server) for authentication"
+      ),
     email: z
       .string()
       .optional()
-      .describe("Optional Bitbucket email (required if token is provided)"),
+      .describe("Optional Bitbucket email (required if token is provided, Cloud only)"),
+    flavor: z
+      .enum(["cloud", "server"])
+      .optional()
+      .describe("Optional Bitbucket flavor: 'cloud' (default) or 'server' for Server/Data Center"),
+    baseUrl: z
+      .string()
+      .optional()
+      .describe("Bitbucket Server base URL (required when flavor is 'server')"),
   },
   async (args) => {
     try {
-      const result = await getRepoInfo(args.owner, args.repo, args.token, args.email);
+      const result = await getRepoInfo(args.owner, args.repo, args.token, args.email, {
+        flavor: args.flavor,
+        baseUrl: args.baseUrl,
+      });
       return {
         content: [
           {
@@ -94,12 +110,12 @@ server.tool(
         ],
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorKind = error instanceof HttpError ? error.kind : undefined;
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({ error: errorMessage }, null, 2),
+            text: JSON.stringify({ error: formatHttpError(error), kind: errorKind }, null, 2),
           },
         ],
         isError: true,
@@ -136,12 +152,12 @@ server.tool(
         ],
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorKind = error instanceof HttpError ? error.kind : undefined;
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({ error: errorMessage }, null, 2),
+            text: JSON.stringify({ error: formatHttpError(error), kind: errorKind }, null, 2),
           },
         ],
         isError: true,
@@ -218,18 +234,7 @@ server.prompt(
         throw new Error(`Configuration file not found: .sonarflowrc.json at ${configPath}`);
       }
 
-      const config = JSON.parse(readFileSync(configPath, "utf8")) as {
-        repoName: string;
-        gitOrganization: string;
-        sonarProjectKey: string;
-        sonarBaseUrl?: string;
-        publicSonar?: boolean;
-        gitProvider?: "github" | "bitbucket";
-        sonarOrganization?: string;
-        sonarMode?: "standard" | "custom";
-        outputPath?: string;
-        [key: string]: unknown;
-      };
+      const config = loadConfiguration(workspacePath);
 
       // Get current branch
       let currentBranch = args.branch;
@@ -245,7 +250,7 @@ server.prompt(
       }
 
       // Initialize SonarQube extractor and fetch issues
-      const extractor = new SonarIssueExtractor();
+      const extractor = new SonarIssueExtractor(config);
       const issues = await extractor.fetchIssuesForBranch(currentBranch, config);
 
       // Read autofix rules file
@@ -262,6 +267,18 @@ server.prompt(
         autofixRules = `Warning: Autofix rules file not found at ${autofixRulesPath}. Please ensure the file exists.`;
       }
 
+      // Official descriptions of the reported rules, when a fetch wrote rules.json
+      const rulesPath = path.join(workspacePath, config.outputPath || ".sonarflow/", RULES_FILE);
+      let ruleDescriptions = "";
+      if (existsSync(rulesPath)) {
+        const catalog = JSON.parse(readFileSync(rulesPath, "utf8")) as RulesCatalog;
+        const reported = new Set((issues.issues ?? []).map((issue) => issue.rule));
+        const rules = Object.values(catalog.rules).filter((rule) => reported.has(rule.key));
+        if (rules.length > 0) {
+          ruleDescriptions = `\n\n## Rule Descriptions:\n${JSON.stringify(rules, null, 2)}`;
+        }
+      }
+
       // Combine everything in the prompt message
       const issuesJson = JSON.stringify(issues, null, 2);
       const promptText = `${sonarAutofixPromptContent}
@@ -273,7 +290,7 @@ ${autofixRules}
 ${currentBranch}
 
 ## SonarQube Issues:
-${issuesJson}
+${issuesJson}${ruleDescriptions}
 
 Please analyze the SonarQube issues above and apply fixes according to the autofix rules provided. Focus on fixing issues one by one, following the priority order and patterns specified in the rules.`;
 
@@ -289,7 +306,7 @@ Please analyze the SonarQube issues above and apply fixes according to the autof
         ],
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorMessage = formatHttpError(error);
       return {
         messages: [
           {
@@ -2,6 +2,9 @@
  * Bitbucket API tool for fetching repository information
  */
 
+import { httpRequest } from "../../http/http-client.js";
+import { HttpError } from "../../http/http-errors.js";
+
 interface BitbucketRepoInfo {
   name: string;
   full_name: string;
@@ -27,20 +30,106 @@ interface BitbucketApiResponse extends BitbucketRepoInfo {
   [key: string]: unknown;
 }
 
+interface BitbucketServerApiResponse {
+  slug: string;
+  name: string;
+  description?: string;
+  public?: boolean;
+  project?: {
+    key: string;
+    name?: string;
+  };
+  links?: {
+    self?: Array<{ href: string }>;
+    clone?: Array<{ href: string; name: string }>;
+  };
+  [key: string]: unknown;
+}
+
+interface BitbucketRepoInfoOptions {
+  /** Bitbucket Cloud (default) or self-hosted Bitbucket Server / Data Center */
+  flavor?: "cloud" | "server";
+  /** Bitbucket Server base URL (required for the server flavor) */
+  baseUrl?: string;
+}
+
+/**
+ * Fetches repository metadata from Bitbucket Server / Data Center REST API
+ * @param projectKey - Bitbucket project key
+ * @param repoSlug - Repository slug
+ * @param baseUrl - Bitbucket Server base URL
+ * @param token - Optional HTTP access token (sent as bearer token)
+ * @returns Repository metadata mapped to the Bitbucket Cloud shape
+ */
+const getServerRepoInfo = async (
+  projectKey: string,
+  repoSlug: string,
+  baseUrl: string,
+  token?: string
+): Promise<BitbucketRepoInfo> => {
+  const apiBase = baseUrl.replace(/\/+$/, "").replace(/\/rest\/api\/1\.0$/, "");
+  const apiUrl = `${apiBase}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(repoSlug)}`;
+
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const response = await httpRequest(apiUrl, { service: "Bitbucket Server", headers });
+
+  const data = (await response.json()) as BitbucketServerApiResponse;
+
+  return {
+    name: data.name,
+    full_name: `${data.project?.key ?? projectKey}/${data.slug}`,
+    description: data.description,
+    is_private: data.public === undefined ? undefined : !data.public,
+    owner: data.project
+      ? {
+          username: data.project.key,
+          display_name: data.project.name ?? data.project.key,
+        }
+      : undefined,
+    links: data.links
+      ? {
+          html: data.links.self?.[0],
+          clone: data.links.clone,
+        }
+      : undefined,
+  };
+};
+
 /**
  * Fetches repository metadata from Bitbucket API
- * @param owner - Repository owner/workspace name
- * @param repo - Repository name
- * @param token - Optional Bitbucket app password token
- * @param email - Optional Bitbucket email (required if token is provided)
+ * @param owner - Repository owner/workspace name (project key for Bitbucket Server)
+ * @param repo - Repository name (slug for Bitbucket Server)
+ * @param token - Optional Bitbucket app password token (HTTP access token for Bitbucket Server)
+ * @param email - Optional Bitbucket email (required if token is provided, Cloud only)
+ * @param options - Optional flavor and base URL for Bitbucket Server / Data Center
  * @returns Repository metadata as JSON
  */
 export const getRepoInfo = async (
   owner: string,
   repo: string,
   token?: string,
-  email?: string
+  email?: string,
+  options: BitbucketRepoInfoOptions = {}
 ): Promise<BitbucketRepoInfo> => {
+  if (options.flavor === "server") {
+    if (!options.baseUrl) {
+      throw new Error("Base URL is required for Bitbucket Server");
+    }
+    try {
+      return await getServerRepoInfo(owner, repo, options.baseUrl, token);
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to fetch Bitbucket repository info: ${errorMessage}`);
+    }
+  }
+
   const apiUrl = `https://api.bitbucket.org/2.0/repositories/${owner}/${repo}`;
 
   const headers: Record<string, string> = {
@@ -57,14 +146,7 @@ export const getRepoInfo = async (
   }
 
   try {
-    const response = await fetch(apiUrl, { headers });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Bitbucket API error: ${response.status} ${response.statusText}. ${errorText.substring(0, 200)}`
-      );
-    }
+    const response = await httpRequest(apiUrl, { service: "Bitbucket", headers });
 
     const data = (await response.json()) as BitbucketApiResponse;
 
@@ -96,6 +178,8 @@ export const getRepoInfo = async (
 
     return repoInfo;
   } catch (error) {
+    // Keep typed HTTP errors so callers can tell auth, not-found and rate-limit failures apart
+    if (error instanceof HttpError) throw error;
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to fetch Bitbucket repository info: ${errorMessage}`);
   }
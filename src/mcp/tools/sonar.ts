@@ -2,6 +2,9 @@
  * SonarQube API tool for fetching quality gate status
  */
 
+import { httpRequest } from "../../http/http-client.js";
+import { HttpError } from "../../http/http-errors.js";
+
 interface QualityGateCondition {
   status?: string;
   metricKey?: string;
@@ -68,14 +71,7 @@ export const getQualityGateStatus = async (
   try {
     // Primary: Get quality gate project status
     const statusUrl = `${apiBase}/qualitygates/project_status?projectKey=${encodeURIComponent(projectKey)}`;
-    const statusResponse = await fetch(statusUrl, { headers });
-
-    if (!statusResponse.ok) {
-      const errorText = await statusResponse.text();
-      throw new Error(
-        `SonarQube API error: ${statusResponse.status} ${statusResponse.statusText}. ${errorText.substring(0, 200)}`
-      );
-    }
+    const statusResponse = await httpRequest(statusUrl, { service: "SonarQube", headers });
 
     const statusData = (await statusResponse.json()) as QualityGateProjectStatus;
     const projectStatus = statusData.projectStatus;
@@ -102,6 +98,8 @@ export const getQualityGateStatus = async (
 
     return result;
   } catch (error) {
+    // Keep typed HTTP errors so callers can tell auth, not-found and rate-limit failures apart
+    if (error instanceof HttpError) throw error;
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to fetch SonarQube quality gate status: ${errorMessage}`);
   }
@@ -0,0 +1,168 @@
+import type { ReportCount, ReportData } from "./report-model.js";
+
+/**
+ * Escapes text for HTML content and attributes
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Renders an HTML table
+ * @param headers - Column headers
+ * @param rows - Row cells (already escaped HTML)
+ * @returns Table markup
+ */
+const table = (headers: string[], rows: string[][]): string =>
+  `<table><thead><tr>${headers.map((h) => `<th>${h}</th>`).join("")}</tr></thead><tbody>${rows
+    .map((row) => `<tr>${row.map((c) => `<td>${c}</td>`).join("")}</tr>`)
+    .join("")}</tbody></table>`;
+
+/**
+ * Renders issue counts, with an optional detail column (e.g. rule name)
+ * @param header - Label column header
+ * @param counts - Issue counts
+ * @param detailHeader - Detail column header, if any
+ * @returns Table markup
+ */
+const countTable = (header: string, counts: ReportCount[], detailHeader?: string): string =>
+  detailHeader
+    ? table(
+        [header, detailHeader, "Issues"],
+        counts.map((c) => [
+          `<code>${escapeHtml(c.label)}</code>`,
+          escapeHtml(c.detail ?? ""),
+          String(c.count),
+        ])
+      )
+    : table(
+        [header, "Issues"],
+        counts.map((c) => [escapeHtml(c.label), String(c.count)])
+      );
+
+/**
+ * Renders a link opening the Sonar UI in a new tab
+ * @param url - Target URL
+ * @param text - Link text
+ * @returns Anchor markup
+ */
+const link = (url: string, text: string): string =>
+  `<a href="${escapeHtml(url)}" target="_blank" rel="noopener">${escapeHtml(text)}</a>`;
+
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; color: #1f2328; }
+h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3rem; }
+table { border-collapse: collapse; margin: .5rem 0 1.5rem; width: 100%; }
+th, td { border: 1px solid #d0d7de; padding: .35rem .6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+code { background: #f6f8fa; border-radius: 4px; padding: .1rem .3rem; }
+.note { background: #fff8c5; border: 1px solid #d4a72c; border-radius: 6px; padding: .6rem 1rem; }
+.meta { color: #59636e; }
+summary { cursor: pointer; font-weight: 600; margin: .4rem 0; }
+.BLOCKER, .CRITICAL, .HIGH { color: #cf222e; font-weight: 600; }
+.MAJOR, .MEDIUM { color: #9a6700; font-weight: 600; }
+`;
+
+/**
+ * Renders a report as a self-contained HTML page (inline styles, no external assets)
+ * @param report - Report data
+ * @returns HTML document
+ */
+export const renderHtmlReport = (report: ReportData): string => {
+  const { metadata } = report;
+  const sections: string[] = ["<h1>SonarQube report</h1>"];
+
+  const meta = [
+    ...(metadata ? [`<strong>Source:</strong> ${escapeHtml(metadata.source)}`] : []),
+    `<strong>Generated:</strong> ${escapeHtml(report.generatedAt)}`,
+    `<strong>Issues:</strong> ${report.totalIssues}`,
+  ];
+  sections.push(`<p class="meta">${meta.join("<br>")}</p>`);
+
+  if (metadata?.fallback) {
+    sections.push(
+      `<p class="note">⚠️ Issues come from fallback branch <code>${escapeHtml(metadata.fallback.branch)}</code>, not from <code>${escapeHtml(metadata.fallback.requestedBranch)}</code> (${escapeHtml(metadata.fallback.reason)}).</p>`
+    );
+  }
+  if (metadata?.changedOnly) {
+    sections.push(
+      `<p class="note">Only issues on lines changed against <code>${escapeHtml(metadata.changedOnly.base)}</code>: ${metadata.changedOnly.changedIssues} of ${metadata.changedOnly.totalIssues}.</p>`
+    );
+  }
+  if (report.truncated) {
+    sections.push(
+      `<p class="note">⚠️ SonarQube returned more issues than could be fetched; this list is incomplete.</p>`
+    );
+  }
+
+  if (report.metrics.length > 0) {
+    sections.push(
+      "<h2>Coverage and duplication</h2>",
+      table(
+        ["Metric", "Value"],
+        report.metrics.map((m) => [escapeHtml(m.label), escapeHtml(m.value)])
+      )
+    );
+  }
+
+  if (report.totalIssues > 0) {
+    sections.push(
+      "<h2>Issues by severity</h2>",
+      countTable("Severity", report.bySeverity),
+      "<h2>Issues by software quality</h2>",
+      countTable("Software quality", report.byQuality),
+      "<h2>Issues by rule</h2>",
+      countTable("Rule", report.byRule, "Name"),
+      "<h2>Issues by file</h2>"
+    );
+    for (const { file, issues } of report.byFile) {
+      sections.push(
+        `<details open><summary><code>${escapeHtml(file)}</code> (${issues.length})</summary>${table(
+          ["Line", "Severity", "Rule", "Message"],
+          issues.map((issue) => [
+            link(issue.url, String(issue.line ?? "-")),
+            `<span class="${escapeHtml(issue.severity)}">${escapeHtml(issue.severity)}</span>`,
+            `<code>${escapeHtml(issue.rule)}</code>`,
+            escapeHtml(issue.message),
+          ])
+        )}</details>`
+      );
+    }
+  }
+
+  if (report.hotspots.length > 0) {
+    sections.push(
+      "<h2>Security hotspots</h2>",
+      table(
+        ["File", "Line", "Priority", "Category", "Message"],
+        report.hotspots.map((hotspot) => [
+          `<code>${escapeHtml(hotspot.file)}</code>`,
+          link(hotspot.url, String(hotspot.line ?? "-")),
+          `<span class="${escapeHtml(hotspot.priority)}">${escapeHtml(hotspot.priority)}</span>`,
+          escapeHtml(hotspot.category ?? ""),
+          escapeHtml(hotspot.message),
+        ])
+      )
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>SonarQube report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${sections.join("\n")}
+</body>
+</html>
+`;
+};
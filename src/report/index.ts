@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import dotenv from "dotenv";
+import { resolveConfig } from "../config/config-resolver.js";
+import { loadExportInput, resolveOutputDir } from "../export/export-formats.js";
+import { renderHtmlReport } from "./html-report.js";
+import { renderMarkdownReport } from "./markdown-report.js";
+import { buildReport, getSonarUiUrl } from "./report-model.js";
+import { configureReportCommand, type ReportOptions } from "./report-options.js";
+
+dotenv.config();
+
+/**
+ * Reads the configured SonarQube URL, used to link issues back to the Sonar UI
+ * @returns Effective sonarBaseUrl (configuration files, SONARFLOW_SONAR_BASE_URL or SONAR_BASE_URL)
+ */
+const readSonarBaseUrl = (): string | undefined =>
+  resolveConfig().config.sonarBaseUrl as string | undefined;
+
+/**
+ * Renders the report of the last fetch
+ * @param options - Report command options
+ */
+const generateReport = (options: ReportOptions): void => {
+  try {
+    const inputDir = resolveOutputDir(options.input);
+    const report = buildReport(loadExportInput(inputDir), getSonarUiUrl(readSonarBaseUrl()));
+
+    const isHtml = options.format === "html";
+    const content = isHtml ? renderHtmlReport(report) : renderMarkdownReport(report);
+    const filePath = options.output
+      ? path.resolve(options.output)
+      : path.join(inputDir, isHtml ? "report.html" : "report.md");
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+
+    console.log(
+      chalk.green(
+        `✅ Generated ${options.format} report with ${report.totalIssues} issue(s) and ${report.hotspots.length} security hotspot(s)`
+      )
+    );
+    console.log(chalk.blue(`📁 Saved to: ${filePath}`));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error generating report: ${msg}`));
+    process.exit(1);
+  }
+};
+
+// Parse command line arguments
+const program = configureReportCommand(new Command("sonarflow report"));
+program.parse(process.argv);
+
+generateReport(program.opts<ReportOptions>());
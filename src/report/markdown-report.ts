@@ -0,0 +1,134 @@
+import type { ReportCount, ReportData } from "./report-model.js";
+
+/**
+ * Escapes text for use inside a Markdown table cell
+ * @param text - Raw text
+ * @returns Escaped text on a single line
+ */
+const cell = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+/**
+ * Renders a Markdown table
+ * @param headers - Column headers
+ * @param rows - Row cells (already escaped)
+ * @returns Table lines
+ */
+const table = (headers: string[], rows: string[][]): string[] => [
+  `| ${headers.join(" | ")} |`,
+  `| ${headers.map(() => "---").join(" | ")} |`,
+  ...rows.map((row) => `| ${row.join(" | ")} |`),
+];
+
+/**
+ * Renders issue counts, with an optional detail column (e.g. rule name)
+ * @param header - Label column header
+ * @param counts - Issue counts
+ * @param detailHeader - Detail column header, if any
+ * @returns Table lines
+ */
+const countTable = (header: string, counts: ReportCount[], detailHeader?: string): string[] =>
+  detailHeader
+    ? table(
+        [header, detailHeader, "Issues"],
+        counts.map((c) => [`\`${cell(c.label)}\``, cell(c.detail ?? ""), String(c.count)])
+      )
+    : table(
+        [header, "Issues"],
+        counts.map((c) => [cell(c.label), String(c.count)])
+      );
+
+/**
+ * Renders a report as self-contained Markdown (suitable for PR descriptions)
+ * @param report - Report data
+ * @returns Markdown document
+ */
+export const renderMarkdownReport = (report: ReportData): string => {
+  const { metadata } = report;
+  const lines: string[] = ["# SonarQube report", ""];
+
+  if (metadata) {
+    lines.push(`**Source:** ${metadata.source}  `);
+  }
+  lines.push(`**Generated:** ${report.generatedAt}  `, `**Issues:** ${report.totalIssues}`, "");
+
+  if (metadata?.fallback) {
+    lines.push(
+      `> ⚠️ Issues come from fallback branch \`${metadata.fallback.branch}\`, not from \`${metadata.fallback.requestedBranch}\` (${metadata.fallback.reason}).`,
+      ""
+    );
+  }
+  if (metadata?.changedOnly) {
+    lines.push(
+      `> Only issues on lines changed against \`${metadata.changedOnly.base}\`: ${metadata.changedOnly.changedIssues} of ${metadata.changedOnly.totalIssues}.`,
+      ""
+    );
+  }
+  if (report.truncated) {
+    lines.push(
+      "> ⚠️ SonarQube returned more issues than could be fetched; this list is incomplete.",
+      ""
+    );
+  }
+
+  if (report.metrics.length > 0) {
+    lines.push(
+      "## Coverage and duplication",
+      "",
+      ...table(
+        ["Metric", "Value"],
+        report.metrics.map((m) => [m.label, m.value])
+      ),
+      ""
+    );
+  }
+
+  if (report.totalIssues > 0) {
+    lines.push("## Issues by severity", "", ...countTable("Severity", report.bySeverity), "");
+    lines.push(
+      "## Issues by software quality",
+      "",
+      ...countTable("Software quality", report.byQuality),
+      ""
+    );
+    lines.push("## Issues by rule", "", ...countTable("Rule", report.byRule, "Name"), "");
+
+    lines.push("## Issues by file", "");
+    for (const { file, issues } of report.byFile) {
+      lines.push(
+        `### \`${file}\` (${issues.length})`,
+        "",
+        ...table(
+          ["Line", "Severity", "Rule", "Message"],
+          issues.map((issue) => [
+            `[${issue.line ?? "-"}](${issue.url})`,
+            issue.severity,
+            `\`${cell(issue.rule)}\``,
+            cell(issue.message),
+          ])
+        ),
+        ""
+      );
+    }
+  }
+
+  if (report.hotspots.length > 0) {
+    lines.push(
+      "## Security hotspots",
+      "",
+      ...table(
+        ["File", "Line", "Priority", "Category", "Message"],
+        report.hotspots.map((hotspot) => [
+          `\`${cell(hotspot.file)}\``,
+          `[${hotspot.line ?? "-"}](${hotspot.url})`,
+          hotspot.priority,
+          cell(hotspot.category ?? ""),
+          cell(hotspot.message),
+        ])
+      ),
+      ""
+    );
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
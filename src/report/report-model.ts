@@ -0,0 +1,294 @@
+import type { ExportInput } from "../export/export-formats.js";
+import { componentToPath } from "../git/changed-lines.js";
+import type {
+  SonarflowMetadata,
+  SonarIssue,
+  SonarMeasure,
+  SonarMeasuresResponse,
+} from "../sonar/sonar-model.js";
+
+export interface ReportIssue {
+  key: string;
+  file: string;
+  line?: number;
+  severity: string;
+  rule: string;
+  message: string;
+  url: string;
+}
+
+export interface ReportHotspot {
+  key: string;
+  file: string;
+  line?: number;
+  priority: string;
+  category?: string;
+  message: string;
+  url: string;
+}
+
+export interface ReportCount {
+  label: string;
+  count: number;
+  /** Extra description (e.g. rule name) */
+  detail?: string;
+}
+
+export interface ReportMetric {
+  label: string;
+  value: string;
+}
+
+/**
+ * Render-ready view of a fetch output, shared by the Markdown and HTML renderers
+ */
+export interface ReportData {
+  generatedAt: string;
+  metadata?: SonarflowMetadata;
+  truncated: boolean;
+  totalIssues: number;
+  bySeverity: ReportCount[];
+  byQuality: ReportCount[];
+  byRule: ReportCount[];
+  byFile: Array<{ file: string; issues: ReportIssue[] }>;
+  metrics: ReportMetric[];
+  hotspots: ReportHotspot[];
+}
+
+export const SEVERITY_ORDER = [
+  "BLOCKER",
+  "CRITICAL",
+  "HIGH",
+  "MAJOR",
+  "MEDIUM",
+  "MINOR",
+  "LOW",
+  "INFO",
+  "UNKNOWN",
+];
+
+/**
+ * Software quality of issues without Clean Code impacts, derived from the legacy type
+ */
+const TYPE_QUALITIES: Record<string, string> = {
+  BUG: "RELIABILITY",
+  VULNERABILITY: "SECURITY",
+  CODE_SMELL: "MAINTAINABILITY",
+};
+
+/**
+ * Metrics shown in reports, in display order
+ */
+const REPORT_METRICS: Array<{ metric: string; label: string; percent?: boolean }> = [
+  { metric: "coverage", label: "Coverage", percent: true },
+  { metric: "new_coverage", label: "Coverage on new code", percent: true },
+  { metric: "line_coverage", label: "Line coverage", percent: true },
+  { metric: "branch_coverage", label: "Branch coverage", percent: true },
+  { metric: "uncovered_lines", label: "Uncovered lines" },
+  { metric: "new_uncovered_lines", label: "Uncovered lines on new code" },
+  { metric: "duplicated_lines_density", label: "Duplicated lines", percent: true },
+  {
+    metric: "new_duplicated_lines_density",
+    label: "Duplicated lines on new code",
+    percent: true,
+  },
+  { metric: "duplicated_blocks", label: "Duplicated blocks" },
+];
+
+const DEFAULT_SONAR_UI_URL = "https://sonarcloud.io";
+
+/**
+ * Derives the SonarQube web UI URL from the configured API URL
+ * @param sonarBaseUrl - Configured SonarQube URL (e.g. https://sonar.example.com/api/issues/search)
+ * @returns Base URL of the web UI
+ */
+export const getSonarUiUrl = (sonarBaseUrl?: string): string =>
+  (sonarBaseUrl || DEFAULT_SONAR_UI_URL).replace(/\/api(\/.*)?$/, "").replace(/\/$/, "");
+
+/**
+ * Link of an issue or security hotspot in the Sonar web UI
+ * @param sonarUiUrl - Base URL of the web UI
+ * @param projectKey - Sonar project key
+ * @param finding - Kind and key of the finding
+ * @param scope - Branch or pull request the finding was reported on
+ * @returns URL
+ */
+export const getSonarFindingUrl = (
+  sonarUiUrl: string,
+  projectKey: string,
+  finding: { kind: "issue" | "hotspot"; key: string },
+  scope: { branch?: string; pullRequest?: string } = {}
+): string => {
+  const params = new URLSearchParams({ id: projectKey });
+  params.set(finding.kind === "hotspot" ? "hotspots" : "open", finding.key);
+  if (scope.pullRequest) {
+    params.set("pullRequest", scope.pullRequest);
+  } else if (scope.branch) {
+    params.set("branch", scope.branch);
+  }
+  const page = finding.kind === "hotspot" ? "security_hotspots" : "project/issues";
+  return `${sonarUiUrl}/${page}?${params.toString()}`;
+};
+
+/**
+ * Link of a rule description in the Sonar web UI
+ * @param sonarUiUrl - Base URL of the web UI
+ * @param ruleKey - Rule key (e.g. typescript:S1481)
+ * @returns URL
+ */
+export const getSonarRuleUrl = (sonarUiUrl: string, ruleKey: string): string =>
+  `${sonarUiUrl}/coding_rules?${new URLSearchParams({ open: ruleKey, rule_key: ruleKey }).toString()}`;
+
+/**
+ * Counts items by label, most frequent first
+ * @param labels - One label per item
+ * @param order - Optional fixed order of labels
+ * @returns Counts
+ */
+const countBy = (labels: string[], order?: string[]): ReportCount[] => {
+  const counts = new Map<string, number>();
+  for (const label of labels) {
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  const entries = [...counts].map(([label, count]) => ({ label, count }));
+  return order
+    ? entries.sort((a, b) => order.indexOf(a.label) - order.indexOf(b.label))
+    : entries.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+/**
+ * Severity of an issue: legacy severity, or the highest Clean Code impact severity
+ * @param issue - SonarQube issue
+ * @returns Severity label
+ */
+export const issueSeverity = (issue: SonarIssue): string => {
+  if (issue.severity) {
+    return issue.severity;
+  }
+  const impactSeverities: string[] = (issue.impacts ?? []).map((impact) => impact.severity);
+  return SEVERITY_ORDER.find((severity) => impactSeverities.includes(severity)) ?? "UNKNOWN";
+};
+
+/**
+ * Software qualities impacted by an issue
+ * @param issue - SonarQube issue
+ * @returns Software quality labels
+ */
+export const issueQualities = (issue: SonarIssue): string[] => {
+  if (issue.impacts && issue.impacts.length > 0) {
+    return [...new Set(issue.impacts.map((impact) => impact.softwareQuality))];
+  }
+  const quality = issue.type ? TYPE_QUALITIES[issue.type] : undefined;
+  return [quality ?? "UNKNOWN"];
+};
+
+/**
+ * Value of a measure, falling back to the new code period for `new_*` metrics
+ * @param measure - SonarQube measure
+ * @returns Raw value, if any
+ */
+export const measureValue = (measure: SonarMeasure): string | undefined =>
+  measure.value ?? measure.period?.value ?? measure.periods?.[0]?.value;
+
+/**
+ * Selects and formats the coverage and duplication metrics shown in reports
+ * @param measures - Content of measures.json
+ * @returns Formatted metrics
+ */
+const buildMetrics = (measures?: SonarMeasuresResponse | null): ReportMetric[] => {
+  const byMetric = new Map(
+    (measures?.component.measures ?? []).map((measure) => [measure.metric, measure])
+  );
+  const metrics: ReportMetric[] = [];
+  for (const { metric, label, percent } of REPORT_METRICS) {
+    const measure = byMetric.get(metric);
+    const value = measure ? measureValue(measure) : undefined;
+    if (value !== undefined) {
+      metrics.push({ label, value: percent ? `${value}%` : value });
+    }
+  }
+  return metrics;
+};
+
+/**
+ * Builds the render-ready report of a fetch output
+ * @param input - Fetched issues, hotspots and measures
+ * @param sonarUiUrl - Base URL of the SonarQube web UI, used for links
+ * @returns Report data
+ */
+export const buildReport = (input: ExportInput, sonarUiUrl: string): ReportData => {
+  const { issues: response, hotspots, measures } = input;
+  const metadata = response.sonarflow;
+  const issues = response.issues ?? [];
+
+  const paths = new Map<string, string>();
+  for (const component of [...(response.components ?? []), ...(hotspots?.components ?? [])]) {
+    if (component.path) {
+      paths.set(component.key, component.path);
+    }
+  }
+  const fileOf = (component: string): string => paths.get(component) ?? componentToPath(component);
+
+  const scope = { branch: metadata?.branch, pullRequest: metadata?.pullRequest };
+  const projectOf = (component: string, project?: string): string =>
+    project ?? component.split(":")[0];
+
+  const reportIssues: ReportIssue[] = issues.map((issue) => ({
+    key: issue.key,
+    file: fileOf(issue.component),
+    line: issue.textRange?.startLine ?? issue.line,
+    severity: issueSeverity(issue),
+    rule: issue.rule,
+    message: issue.message ?? issue.rule,
+    url: getSonarFindingUrl(
+      sonarUiUrl,
+      projectOf(issue.component, issue.project),
+      { kind: "issue", key: issue.key },
+      scope
+    ),
+  }));
+
+  const byFile = new Map<string, ReportIssue[]>();
+  for (const issue of reportIssues) {
+    byFile.set(issue.file, [...(byFile.get(issue.file) ?? []), issue]);
+  }
+
+  const ruleNames = new Map((response.rules ?? []).map((rule) => [rule.key, rule.name]));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    metadata,
+    truncated: response.truncated === true,
+    totalIssues: issues.length,
+    bySeverity: countBy(
+      reportIssues.map((issue) => issue.severity),
+      SEVERITY_ORDER
+    ),
+    byQuality: countBy(issues.flatMap(issueQualities)),
+    byRule: countBy(issues.map((issue) => issue.rule)).map((count) => ({
+      ...count,
+      detail: ruleNames.get(count.label),
+    })),
+    byFile: [...byFile]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, fileIssues]) => ({
+        file,
+        issues: fileIssues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)),
+      })),
+    metrics: buildMetrics(measures),
+    hotspots: (hotspots?.hotspots ?? []).map((hotspot) => ({
+      key: hotspot.key,
+      file: fileOf(hotspot.component),
+      line: hotspot.textRange?.startLine ?? hotspot.line,
+      priority: hotspot.vulnerabilityProbability ?? "UNKNOWN",
+      category: hotspot.securityCategory,
+      message: hotspot.message ?? hotspot.ruleKey ?? "Security hotspot",
+      url: getSonarFindingUrl(
+        sonarUiUrl,
+        projectOf(hotspot.component, hotspot.project),
+        { kind: "hotspot", key: hotspot.key },
+        scope
+      ),
+    })),
+  };
+};
@@ -0,0 +1,37 @@
+import { type Command, Option } from "commander";
+
+export type ReportFormat = "markdown" | "html";
+
+/**
+ * Options of the report command, as parsed by commander
+ */
+export interface ReportOptions {
+  format: ReportFormat;
+  /** Directory containing issues.json (default: outputPath or .sonarflow/) */
+  input?: string;
+  /** Output file (default: report.md or report.html next to issues.json) */
+  output?: string;
+}
+
+/**
+ * Declares options of the report command
+ * Shared by the sonarflow CLI (help and validation) and the report script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureReportCommand = (command: Command): Command =>
+  command
+    .description("Render fetched issues, measures and hotspots as a Markdown or HTML report")
+    .addOption(
+      new Option("-f, --format <format>", "Report format")
+        .choices(["markdown", "html"])
+        .default("markdown")
+    )
+    .option(
+      "-i, --input <dir>",
+      "Directory containing issues.json (default: outputPath or .sonarflow/)"
+    )
+    .option(
+      "-o, --output <file>",
+      "Output file (default: report.md or report.html next to issues.json)"
+    );
@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import type { ExportInput } from "../export/export-formats.js";
+import { formatHttpError } from "../http/http-errors.js";
+import type { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import {
+  SONAR_MODEL_VERSION,
+  type SonarImpact,
+  type SonarRuleDetails,
+} from "../sonar/sonar-model.js";
+import type { ProjectConfig } from "../versioning/project-config.js";
+
+/**
+ * Rule descriptions written next to issues.json
+ */
+export const RULES_FILE = "rules.json";
+
+/**
+ * Cache of /api/rules/show responses, inside the fetch output directory, one folder per server version
+ */
+const CACHE_DIR = path.join("cache", "rules");
+
+/**
+ * Rules fetched in parallel
+ */
+const CONCURRENCY = 5;
+
+/**
+ * Names of the description sections in rules.json, by Sonar section key
+ */
+const SECTION_NAMES: Record<string, keyof RuleDescription> = {
+  introduction: "introduction",
+  root_cause: "why",
+  assess_the_problem: "assessTheProblem",
+  how_to_fix: "howToFix",
+  resources: "resources",
+};
+
+/**
+ * Description of a rule (HTML), split in the sections of the Sonar rule page
+ */
+export interface RuleDescription {
+  introduction?: string;
+  /** Why this is an issue */
+  why?: string;
+  /** Security hotspots: how to assess the risk */
+  assessTheProblem?: string;
+  /** How to fix it, with one sub-heading per framework when Sonar has variants */
+  howToFix?: string;
+  resources?: string;
+  /** Whole description, for rules without sections (older servers) */
+  full?: string;
+}
+
+/**
+ * Rule as written to rules.json
+ */
+export interface RuleDocument {
+  key: string;
+  name: string;
+  type?: string;
+  language?: string;
+  severity?: string;
+  impacts: SonarImpact[];
+  cleanCodeAttribute?: string;
+  tags: string[];
+  description: RuleDescription;
+}
+
+/**
+ * Content of rules.json
+ */
+export interface RulesCatalog {
+  schemaVersion: number;
+  generatedAt: string;
+  sonarVersion: string;
+  rules: Record<string, RuleDocument>;
+}
+
+/**
+ * Collects the distinct rule keys of the fetched issues and security hotspots
+ * @param input - Fetched issues and hotspots
+ * @returns Sorted rule keys
+ */
+export const collectRuleKeys = (input: ExportInput): string[] =>
+  [
+    ...new Set([
+      ...(input.issues.issues ?? []).map((issue) => issue.rule),
+      ...(input.hotspots?.hotspots ?? []).flatMap((hotspot) =>
+        hotspot.ruleKey ? [hotspot.ruleKey] : []
+      ),
+    ]),
+  ].sort();
+
+/**
+ * Converts the Sonar rule details into the rules.json format
+ * @param rule - Response of /api/rules/show
+ * @returns Rule document
+ */
+export const toRuleDocument = (rule: SonarRuleDetails): RuleDocument => {
+  const description: RuleDescription = {};
+  for (const section of rule.descriptionSections ?? []) {
+    const name = SECTION_NAMES[section.key];
+    if (!name) {
+      continue;
+    }
+    const content = section.context
+      ? `<h3>${section.context.displayName}</h3>\n${section.content}`
+      : section.content;
+    description[name] = description[name] ? `${description[name]}\n${content}` : content;
+  }
+  if (Object.keys(description).length === 0 && (rule.htmlDesc || rule.mdDesc)) {
+    description.full = rule.htmlDesc ?? rule.mdDesc;
+  }
+
+  return {
+    key: rule.key,
+    name: rule.name,
+    type: rule.type,
+    language: rule.langName ?? rule.lang,
+    severity: rule.severity,
+    impacts: rule.impacts ?? [],
+    cleanCodeAttribute: rule.cleanCodeAttribute,
+    tags: [...new Set([...(rule.tags ?? []), ...(rule.sysTags ?? [])])],
+    description,
+  };
+};
+
+/**
+ * Fetches a rule, reading and filling the local cache
+ * @param extractor - SonarQube extractor
+ * @param config - Configuration object
+ * @param ruleKey - Rule key
+ * @param cacheDir - Cache directory of the server version, or null to bypass the cache
+ * @returns Rule details
+ */
+const fetchCachedRule = async (
+  extractor: SonarIssueExtractor,
+  config: ProjectConfig,
+  ruleKey: string,
+  cacheDir: string | null
+): Promise<SonarRuleDetails> => {
+  const cachePath = cacheDir
+    ? path.join(cacheDir, `${ruleKey.replace(/[^\w.-]+/g, "_")}.json`)
+    : null;
+  if (cachePath && fs.existsSync(cachePath)) {
+    return JSON.parse(fs.readFileSync(cachePath, "utf8")) as SonarRuleDetails;
+  }
+
+  const rule = await extractor.fetchRule(config, ruleKey);
+  if (cachePath) {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify(rule, null, 2));
+  }
+  return rule;
+};
+
+/**
+ * Builds the rules catalog of a fetch
+ * Rule details are cached per rule and Sonar server version, so only new rules hit the API;
+ * rules that cannot be fetched are reported and left out
+ * @param extractor - SonarQube extractor
+ * @param config - Configuration object
+ * @param ruleKeys - Rule keys to describe
+ * @param outputDir - Fetch output directory (holds the cache)
+ * @returns Rules catalog
+ */
+export const buildRulesCatalog = async (
+  extractor: SonarIssueExtractor,
+  config: ProjectConfig,
+  ruleKeys: string[],
+  outputDir: string
+): Promise<RulesCatalog> => {
+  let sonarVersion = "unknown";
+  try {
+    sonarVersion = await extractor.fetchServerVersion(config);
+  } catch (error) {
+    console.warn(
+      chalk.yellow(
+        `⚠️  Could not read the SonarQube version, rules are not cached: ${formatHttpError(error)}`
+      )
+    );
+  }
+  const cacheDir =
+    sonarVersion === "unknown"
+      ? null
+      : path.join(outputDir, CACHE_DIR, sonarVersion.replace(/[^\w.-]+/g, "_"));
+
+  const rules: Record<string, RuleDocument> = {};
+  for (let start = 0; start < ruleKeys.length; start += CONCURRENCY) {
+    await Promise.all(
+      ruleKeys.slice(start, start + CONCURRENCY).map(async (ruleKey) => {
+        try {
+          rules[ruleKey] = toRuleDocument(
+            await fetchCachedRule(extractor, config, ruleKey, cacheDir)
+          );
+        } catch (error) {
+          console.warn(
+            chalk.yellow(`⚠️  Failed to fetch rule ${ruleKey}: ${formatHttpError(error)}`)
+          );
+        }
+      })
+    );
+  }
+
+  return {
+    schemaVersion: SONAR_MODEL_VERSION,
+    generatedAt: new Date().toISOString(),
+    sonarVersion,
+    rules: Object.fromEntries(ruleKeys.flatMap((key) => (rules[key] ? [[key, rules[key]]] : []))),
+  };
+};
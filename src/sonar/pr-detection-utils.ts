@@ -9,6 +9,22 @@ import chalk from "chalk";
 const PR_NUMBER_REGEX =
   /(?:pr\/|PR\/|pull\/|PULL\/)(\d+)|(?:feat\/|feature\/|fix\/|bugfix\/).*?(\d+)/i;
 
+/**
+ * Extracts the pull request key from a SonarQube PR link
+ * @param prLink - SonarQube PR link (e.g. https://sonarcloud.io/project/issues?id=project&pullRequest=42)
+ * @returns PR key
+ * @throws Error if the link has no pullRequest parameter
+ */
+export const extractPrKeyFromLink = (prLink: string): string => {
+  const prKey = /[?&]pullRequest=([^&]+)/.exec(prLink)?.[1];
+  if (!prKey) {
+    throw new Error(
+      "Invalid SonarQube PR link format. Expected format: https://sonarcloud.io/project/issues?id=project&pullRequest=PR_KEY"
+    );
+  }
+  return prKey;
+};
+
 /**
  * Extracts PR number from a branch name using regex pattern matching
  * @param branch - Branch name to extract PR number from
@@ -61,3 +77,72 @@ export const buildBitbucketPrApiUrl = (
 ): string => {
   return `${baseUrl}/${organization}/${repoName}/pullrequests?q=source.branch.name="${branch}"`;
 };
+
+/**
+ * Formats a Bitbucket Server / Data Center PR API URL for fetching outgoing PRs by branch
+ * @param baseUrl - Bitbucket Server base URL (e.g. https://bitbucket.mycompany.com)
+ * @param projectKey - Bitbucket project key
+ * @param repoSlug - Repository slug
+ * @param branch - Source branch name
+ * @param state - PR state (OPEN, MERGED, DECLINED, ALL)
+ * @returns Complete Bitbucket Server API URL
+ */
+export const buildBitbucketServerPrApiUrl = (
+  baseUrl: string,
+  projectKey: string,
+  repoSlug: string,
+  branch: string,
+  state: "OPEN" | "MERGED" | "DECLINED" | "ALL" = "OPEN"
+): string => {
+  const apiBase = baseUrl.replace(/\/+$/, "").replace(/\/rest\/api\/1\.0$/, "");
+  const params = new URLSearchParams({
+    at: `refs/heads/${branch}`,
+    direction: "OUTGOING",
+    state,
+  });
+  return `${apiBase}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(repoSlug)}/pull-requests?${params.toString()}`;
+};
+
+/**
+ * Formats a GitLab merge requests API URL for fetching MRs by source branch
+ * @param baseUrl - GitLab instance base URL (e.g. https://gitlab.com)
+ * @param projectPath - Full project path including namespace (e.g. group/subgroup/repo)
+ * @param branch - Source branch name
+ * @param state - MR state (opened, merged, closed, all)
+ * @returns Complete GitLab API URL
+ */
+export const buildGitLabMrApiUrl = (
+  baseUrl: string,
+  projectPath: string,
+  branch: string,
+  state: "opened" | "merged" | "closed" | "all" = "opened"
+): string => {
+  const apiBase = baseUrl.replace(/\/+$/, "").replace(/\/api\/v4$/, "");
+  const project = encodeURIComponent(projectPath);
+  return `${apiBase}/api/v4/projects/${project}/merge_requests?source_branch=${encodeURIComponent(branch)}&state=${state}`;
+};
+
+/**
+ * Formats an Azure DevOps pull requests API URL for fetching PRs by source branch
+ * @param organization - Azure DevOps organization
+ * @param project - Azure DevOps project
+ * @param repository - Repository name or ID
+ * @param branch - Source branch name (without refs/heads/)
+ * @param status - PR status (active, completed, abandoned, all)
+ * @returns Complete Azure DevOps API URL
+ */
+export const buildAzureDevOpsPrApiUrl = (
+  organization: string,
+  project: string,
+  repository: string,
+  branch: string,
+  status: "active" | "completed" | "abandoned" | "all" = "active"
+): string => {
+  const params = new URLSearchParams({
+    "searchCriteria.sourceRefName": `refs/heads/${branch}`,
+    "searchCriteria.status": status,
+    "api-version": "7.1",
+  });
+  const projectUrl = `https://dev.azure.com/${encodeURIComponent(organization)}/${encodeURIComponent(project)}`;
+  return `${projectUrl}/_apis/git/repositories/${encodeURIComponent(repository)}/pullrequests?${params.toString()}`;
+};
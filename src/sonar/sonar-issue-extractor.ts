@@ -1,22 +1,40 @@
 import { execSync } from "node:child_process";
 import chalk from "chalk";
 import dotenv from "dotenv";
+import type { z } from "zod";
+import { httpRequest } from "../http/http-client.js";
+import { formatHttpError } from "../http/http-errors.js";
 import {
+  buildAzureDevOpsPrApiUrl,
   buildBitbucketPrApiUrl,
+  buildBitbucketServerPrApiUrl,
   buildGitHubPrApiUrl,
+  buildGitLabMrApiUrl,
+  extractPrKeyFromLink,
   extractPrNumberFromBranch,
 } from "./pr-detection-utils.js";
-import { SonarUrlBuilder } from "./sonar-url-builder.js";
+import {
+  parseSonarPayload,
+  type SonarHotspotsResponse,
+  type SonarIssuesResponse,
+  type SonarMeasuresResponse,
+  type SonarPaging,
+  type SonarQualityGateStatusResponse,
+  type SonarRuleDetails,
+  sonarHotspotsResponseSchema,
+  sonarIssuesResponseSchema,
+  sonarMeasuresResponseSchema,
+  sonarProjectAnalysesResponseSchema,
+  sonarProjectBranchesResponseSchema,
+  sonarQualityGateStatusResponseSchema,
+  sonarRuleShowResponseSchema,
+} from "./sonar-model.js";
+import { SONAR_MAX_PAGE_SIZE, SONAR_MAX_RESULTS, SonarUrlBuilder } from "./sonar-url-builder.js";
 
 dotenv.config();
 
-interface SonarIssue {
-  severity?: string;
-  [key: string]: unknown;
-}
-
-interface SonarResponse {
-  issues?: SonarIssue[];
+interface PagedResponse {
+  paging?: SonarPaging;
   [key: string]: unknown;
 }
 
@@ -27,6 +45,9 @@ interface Config {
   sonarBaseUrl?: string;
   publicSonar?: boolean;
   gitProvider?: string;
+  githubOwner?: string;
+  githubRepo?: string;
+  gitEmail?: string;
   sonarOrganization?: string;
   sonarMode?: "standard" | "custom";
   rulesFlavor?: "safe" | "vibe-coder" | "yolo";
@@ -44,18 +65,23 @@ export class SonarIssueExtractor {
   private readonly githubRepo: string | undefined;
   private readonly githubBaseUrl: string;
   private readonly bitbucketBaseUrl: string | undefined;
+  private readonly gitlabBaseUrl: string;
 
   private readonly sonarToken: string | undefined;
   private readonly sonarBaseUrlRaw: string;
 
-  constructor() {
+  /**
+   * Creates a new SonarIssueExtractor instance
+   * @param config - Configuration loaded by the caller (githubOwner, githubRepo, gitEmail)
+   */
+  constructor(config: Config) {
+    const { githubOwner, githubRepo, gitEmail } = config;
     // GitHub configuration
     this.gitToken = process.env.GIT_TOKEN;
     // Bitbucket configuration
-    // Prefer env, fallback to local git config user.email
-    const envGitEmail = process.env.GIT_EMAIL;
+    // Prefer the gitEmail setting, fallback to local git config user.email
     let detectedGitEmail: string | undefined;
-    if (!envGitEmail) {
+    if (!gitEmail) {
       try {
         const email = execSync("git config --get user.email", {
           stdio: ["ignore", "pipe", "ignore"],
@@ -67,17 +93,20 @@ export class SonarIssueExtractor {
         detectedGitEmail = undefined;
       }
     }
-    this.gitEmail = envGitEmail || detectedGitEmail;
+    this.gitEmail = gitEmail || detectedGitEmail;
 
-    this.githubOwner = process.env.GITHUB_OWNER;
-    this.githubRepo = process.env.GITHUB_REPO;
+    this.githubOwner = githubOwner || config.gitOrganization;
+    this.githubRepo = githubRepo || config.repoName;
     this.githubBaseUrl = "https://api.github.com";
 
     this.bitbucketBaseUrl = "https://api.bitbucket.org/2.0/repositories";
 
+    this.gitlabBaseUrl = "https://gitlab.com";
+
     // SonarQube configuration
+    // Base URLs come from the configuration (see resolveConfig), these are the defaults
     this.sonarToken = process.env.SONAR_TOKEN;
-    this.sonarBaseUrlRaw = process.env.SONAR_BASE_URL || "https://sonarcloud.io/api/issues/search";
+    this.sonarBaseUrlRaw = "https://sonarcloud.io/api/issues/search";
   }
 
   /**
@@ -112,13 +141,53 @@ export class SonarIssueExtractor {
     };
   }
 
+  /**
+   * Gets GitHub authentication headers
+   * @returns Authentication headers
+   */
+  getGitHubAuthHeaders(): Record<string, string> {
+    if (!this.gitToken) {
+      throw new Error("GIT_TOKEN is required");
+    }
+
+    return {
+      Authorization: `token ${this.gitToken}`,
+      Accept: "application/vnd.github.v3+json",
+    };
+  }
+
+  /**
+   * Resolves the GitHub API base URL
+   * @param apiUrl - Optional configured API URL (e.g. https://ghe.corp/api/v3)
+   * @returns API base URL without trailing slash
+   */
+  getGitHubApiUrl(apiUrl?: string): string {
+    return (apiUrl || this.githubBaseUrl).replace(/\/+$/, "");
+  }
+
+  /**
+   * GitHub repository of the configuration, used for PR detection and review comments
+   * @returns Owner and name (githubOwner and githubRepo, or gitOrganization and repoName)
+   * @throws Error when the owner or the name is not configured
+   */
+  getGitHubRepository(): { owner: string; repo: string } {
+    if (!this.githubOwner || !this.githubRepo) {
+      throw new Error(
+        "GitHub repository unknown: set githubOwner and githubRepo, or gitOrganization"
+      );
+    }
+    return { owner: this.githubOwner, repo: this.githubRepo };
+  }
+
   /**
    * Detects GitHub PR ID from branch name
    * @param branch - Branch name
+   * @param apiUrl - Optional GitHub API base URL (GitHub Enterprise Server), from githubApiUrl
    * @returns PR ID if found, null otherwise
    */
-  async detectGitHubPrId(branch: string): Promise<string | null> {
+  async detectGitHubPrId(branch: string, apiUrl?: string): Promise<string | null> {
     try {
+      const githubApiUrl = this.getGitHubApiUrl(apiUrl);
       if (!this.gitToken || !this.githubOwner || !this.githubRepo) {
         console.warn(chalk.yellow("⚠️  GitHub configuration missing, skipping PR detection"));
         return null;
@@ -128,67 +197,55 @@ export class SonarIssueExtractor {
 
       // Try to get PR number from GitHub API using the branch name (open PRs first)
       const openPrUrl = buildGitHubPrApiUrl(
-        this.githubBaseUrl,
+        githubApiUrl,
         this.githubOwner,
         this.githubRepo,
         branch,
         "open"
       );
-      const openResponse = await fetch(openPrUrl, {
-        headers: {
-          Authorization: `token ${this.gitToken}`,
-          Accept: "application/vnd.github.v3+json",
-        },
+      const openResponse = await httpRequest(openPrUrl, {
+        service: "GitHub",
+        headers: this.getGitHubAuthHeaders(),
       });
 
-      if (openResponse.ok) {
-        const data = (await openResponse.json()) as Array<{ number: number }>;
-        if (Array.isArray(data) && data.length > 0) {
-          const prNumber = data[0].number;
-          console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch}`));
-          return prNumber.toString();
-        }
+      const data = (await openResponse.json()) as Array<{ number: number }>;
+      if (Array.isArray(data) && data.length > 0) {
+        const prNumber = data[0].number;
+        console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch}`));
+        return prNumber.toString();
       }
 
       // Also check closed PRs in case the branch is merged
       const closedPrUrl = buildGitHubPrApiUrl(
-        this.githubBaseUrl,
+        githubApiUrl,
         this.githubOwner,
         this.githubRepo,
         branch,
         "all"
       );
-      const closedResponse = await fetch(closedPrUrl, {
-        headers: {
-          Authorization: `token ${this.gitToken}`,
-          Accept: "application/vnd.github.v3+json",
-        },
+      const closedResponse = await httpRequest(closedPrUrl, {
+        service: "GitHub",
+        headers: this.getGitHubAuthHeaders(),
       });
 
-      if (closedResponse.ok) {
-        const closedData = (await closedResponse.json()) as Array<{ number: number }>;
-        if (Array.isArray(closedData) && closedData.length > 0) {
-          const prNumber = closedData[0].number;
-          console.log(
-            chalk.green(`✅ Found PR #${prNumber} for branch: ${branch} (closed/merged)`)
-          );
-          return prNumber.toString();
-        }
+      const closedData = (await closedResponse.json()) as Array<{ number: number }>;
+      if (Array.isArray(closedData) && closedData.length > 0) {
+        const prNumber = closedData[0].number;
+        console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch} (closed/merged)`));
+        return prNumber.toString();
       }
-
-      // Fallback: try to extract PR number from branch name
-      const extractedPr = extractPrNumberFromBranch(branch);
-      if (extractedPr) {
-        return extractedPr;
-      }
-
-      console.warn(chalk.yellow(`⚠️  No PR found for branch: ${branch}`));
-      return null;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(chalk.yellow(`⚠️  Could not detect GitHub PR ID: ${errorMessage}`));
-      return null;
+      console.warn(chalk.yellow(`⚠️  Could not detect GitHub PR ID: ${formatHttpError(error)}`));
     }
+
+    // Fallback: try to extract PR number from branch name
+    const extractedPr = extractPrNumberFromBranch(branch);
+    if (extractedPr) {
+      return extractedPr;
+    }
+
+    console.warn(chalk.yellow(`⚠️  No PR found for branch: ${branch}`));
+    return null;
   }
 
   /**
@@ -207,7 +264,9 @@ export class SonarIssueExtractor {
       if (!this.gitEmail || !this.gitToken || !this.bitbucketBaseUrl) {
         console.warn(chalk.yellow("⚠️  Bitbucket configuration missing, skipping PR detection"));
         if (!this.gitEmail) {
-          console.warn(chalk.yellow("⚠️  GIT_EMAIL is missing, skipping PR detection"));
+          console.warn(
+            chalk.yellow("⚠️  GIT_EMAIL (gitEmail setting) is missing, skipping PR detection")
+          );
         }
         if (!this.gitToken) {
           console.warn(chalk.yellow("⚠️  GIT_TOKEN is missing, skipping PR detection"));
@@ -223,19 +282,18 @@ export class SonarIssueExtractor {
       // Try to get PR number from Bitbucket API using the branch name
       // First check for open PRs
       const openPrUrl = `${this.bitbucketBaseUrl}/${organization}/${repoName}/pullrequests?q=source.branch.name="${branch}" AND state="OPEN"`;
-      const openResponse = await fetch(openPrUrl, {
+      const openResponse = await httpRequest(openPrUrl, {
+        service: "Bitbucket",
         headers: this.getBitbucketAuthHeaders(),
       });
 
-      if (openResponse.ok) {
-        const openData = (await openResponse.json()) as {
-          values?: Array<{ id: number; state: string }>;
-        };
-        if (openData.values && openData.values.length > 0) {
-          const prNumber = openData.values[0].id;
-          console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch}`));
-          return prNumber.toString();
-        }
+      const openData = (await openResponse.json()) as {
+        values?: Array<{ id: number; state: string }>;
+      };
+      if (openData.values && openData.values.length > 0) {
+        const prNumber = openData.values[0].id;
+        console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch}`));
+        return prNumber.toString();
       }
 
       // If no open PR found, check for all PRs (including merged/declined)
@@ -250,21 +308,92 @@ export class SonarIssueExtractor {
       console.log(
         chalk.blue(`All PR headers: ${JSON.stringify(this.getBitbucketAuthHeaders(), null, 2)}`)
       );
-      const allResponse = await fetch(allPrUrl, {
+      const allResponse = await httpRequest(allPrUrl, {
+        service: "Bitbucket",
         headers: this.getBitbucketAuthHeaders(),
       });
 
-      if (allResponse.ok) {
-        const allData = (await allResponse.json()) as {
+      const allData = (await allResponse.json()) as {
+        values?: Array<{ id: number; state: string }>;
+      };
+      if (allData.values && allData.values.length > 0) {
+        const prNumber = allData.values[0].id;
+        console.log(
+          chalk.green(`✅ Found PR #${prNumber} for branch: ${branch} (${allData.values[0].state})`)
+        );
+        return prNumber.toString();
+      }
+
+      console.warn(chalk.yellow(`⚠️  No PR found for branch: ${branch}`));
+      return null;
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  Could not detect Bitbucket PR ID: ${formatHttpError(error)}`));
+      return null;
+    }
+  }
+
+  /**
+   * Gets Bitbucket Server / Data Center authentication headers (HTTP access token)
+   * @returns Authentication headers
+   */
+  getBitbucketServerAuthHeaders(): Record<string, string> {
+    if (!this.gitToken) {
+      throw new Error("GIT_TOKEN is required");
+    }
+
+    return {
+      Authorization: `Bearer ${this.gitToken}`,
+    };
+  }
+
+  /**
+   * Detects Bitbucket Server / Data Center PR ID from branch name
+   * @param branch - Branch name
+   * @param repoSlug - Repository slug
+   * @param projectKey - Bitbucket project key
+   * @param baseUrl - Bitbucket Server URL, from bitbucketBaseUrl
+   * @returns PR ID if found, null otherwise
+   */
+  async detectBitbucketServerPrId(
+    branch: string,
+    repoSlug: string,
+    projectKey: string,
+    baseUrl?: string
+  ): Promise<string | null> {
+    try {
+      if (!this.gitToken || !baseUrl) {
+        console.warn(
+          chalk.yellow("⚠️  Bitbucket Server configuration missing, skipping PR detection")
+        );
+        if (!this.gitToken) {
+          console.warn(chalk.yellow("⚠️  GIT_TOKEN is missing, skipping PR detection"));
+        }
+        if (!baseUrl) {
+          console.warn(chalk.yellow("⚠️  bitbucketBaseUrl is missing, skipping PR detection"));
+        }
+        return null;
+      }
+
+      console.log(chalk.blue(`🔍 Checking for PR associated with branch: ${branch}`));
+
+      // Open PRs first, then any PR (merged/declined) in case the branch is merged
+      for (const state of ["OPEN", "ALL"] as const) {
+        const prUrl = buildBitbucketServerPrApiUrl(baseUrl, projectKey, repoSlug, branch, state);
+        const response = await httpRequest(prUrl, {
+          service: "Bitbucket Server",
+          headers: {
+            ...this.getBitbucketServerAuthHeaders(),
+            Accept: "application/json",
+          },
+        });
+
+        const data = (await response.json()) as {
           values?: Array<{ id: number; state: string }>;
         };
-        if (allData.values && allData.values.length > 0) {
-          const prNumber = allData.values[0].id;
-          console.log(
-            chalk.green(
-              `✅ Found PR #${prNumber} for branch: ${branch} (${allData.values[0].state})`
-            )
-          );
+        if (data.values && data.values.length > 0) {
+          const prNumber = data.values[0].id;
+          const suffix = state === "OPEN" ? "" : ` (${data.values[0].state})`;
+          console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch}${suffix}`));
           return prNumber.toString();
         }
       }
@@ -272,18 +401,174 @@ export class SonarIssueExtractor {
       console.warn(chalk.yellow(`⚠️  No PR found for branch: ${branch}`));
       return null;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(chalk.yellow(`⚠️  Could not detect Bitbucket PR ID: ${errorMessage}`));
+      console.warn(
+        chalk.yellow(`⚠️  Could not detect Bitbucket Server PR ID: ${formatHttpError(error)}`)
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Gets GitLab authentication headers
+   * @returns Authentication headers
+   */
+  getGitLabAuthHeaders(): Record<string, string> {
+    if (!this.gitToken) {
+      throw new Error("GIT_TOKEN is required");
+    }
+
+    return {
+      "PRIVATE-TOKEN": this.gitToken,
+    };
+  }
+
+  /**
+   * Detects GitLab merge request IID from branch name
+   * @param branch - Branch name
+   * @param repoName - Repository name
+   * @param organization - Group/namespace path (may include subgroups)
+   * @param baseUrl - Optional GitLab instance URL, from gitlabBaseUrl (default: https://gitlab.com)
+   * @returns MR IID if found, null otherwise
+   */
+  async detectGitLabPrId(
+    branch: string,
+    repoName: string,
+    organization: string,
+    baseUrl?: string
+  ): Promise<string | null> {
+    try {
+      if (!this.gitToken || !organization) {
+        console.warn(chalk.yellow("⚠️  GitLab configuration missing, skipping PR detection"));
+        if (!this.gitToken) {
+          console.warn(chalk.yellow("⚠️  GIT_TOKEN is missing, skipping PR detection"));
+        }
+        if (!organization) {
+          console.warn(chalk.yellow("⚠️  gitOrganization is missing, skipping PR detection"));
+        }
+        return null;
+      }
+
+      console.log(chalk.blue(`🔍 Checking for MR associated with branch: ${branch}`));
+
+      const gitlabUrl = baseUrl || this.gitlabBaseUrl;
+      const projectPath = `${organization}/${repoName}`;
+
+      // Open MRs first, then merged ones in case the branch is already merged
+      for (const state of ["opened", "merged"] as const) {
+        const mrUrl = buildGitLabMrApiUrl(gitlabUrl, projectPath, branch, state);
+        const response = await httpRequest(mrUrl, {
+          service: "GitLab",
+          headers: this.getGitLabAuthHeaders(),
+        });
+
+        const data = (await response.json()) as Array<{ iid: number; state: string }>;
+        if (Array.isArray(data) && data.length > 0) {
+          const mrIid = data[0].iid;
+          const suffix = state === "opened" ? "" : ` (${data[0].state})`;
+          console.log(chalk.green(`✅ Found MR !${mrIid} for branch: ${branch}${suffix}`));
+          return mrIid.toString();
+        }
+      }
+
+      console.warn(chalk.yellow(`⚠️  No MR found for branch: ${branch}`));
+      return null;
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  Could not detect GitLab MR IID: ${formatHttpError(error)}`));
+      return null;
+    }
+  }
+
+  /**
+   * Gets Azure DevOps authentication headers (PAT as Basic auth password)
+   * @returns Authentication headers
+   */
+  getAzureDevOpsAuthHeaders(): Record<string, string> {
+    if (!this.gitToken) {
+      throw new Error("GIT_TOKEN is required");
+    }
+
+    const auth = Buffer.from(`:${this.gitToken}`).toString("base64");
+    return {
+      Authorization: `Basic ${auth}`,
+    };
+  }
+
+  /**
+   * Detects Azure DevOps PR ID from branch name
+   * @param branch - Branch name
+   * @param organization - Azure DevOps organization
+   * @param project - Azure DevOps project
+   * @param repository - Repository name
+   * @returns PR ID if found, null otherwise
+   */
+  async detectAzureDevOpsPrId(
+    branch: string,
+    organization: string,
+    project: string | undefined,
+    repository: string
+  ): Promise<string | null> {
+    try {
+      if (!this.gitToken || !organization || !project) {
+        console.warn(chalk.yellow("⚠️  Azure DevOps configuration missing, skipping PR detection"));
+        if (!this.gitToken) {
+          console.warn(chalk.yellow("⚠️  GIT_TOKEN is missing, skipping PR detection"));
+        }
+        if (!organization) {
+          console.warn(chalk.yellow("⚠️  gitOrganization is missing, skipping PR detection"));
+        }
+        if (!project) {
+          console.warn(chalk.yellow("⚠️  azureDevOpsProject is missing, skipping PR detection"));
+        }
+        return null;
+      }
+
+      console.log(chalk.blue(`🔍 Checking for PR associated with branch: ${branch}`));
+
+      // Active PRs first, then any PR (completed/abandoned) in case the branch is merged
+      for (const status of ["active", "all"] as const) {
+        const prUrl = buildAzureDevOpsPrApiUrl(organization, project, repository, branch, status);
+        const response = await httpRequest(prUrl, {
+          service: "Azure DevOps",
+          headers: {
+            ...this.getAzureDevOpsAuthHeaders(),
+            Accept: "application/json",
+          },
+        });
+
+        const data = (await response.json()) as {
+          value?: Array<{ pullRequestId: number; status: string }>;
+        };
+        if (data.value && data.value.length > 0) {
+          const prNumber = data.value[0].pullRequestId;
+          const suffix = status === "active" ? "" : ` (${data.value[0].status})`;
+          console.log(chalk.green(`✅ Found PR #${prNumber} for branch: ${branch}${suffix}`));
+          return prNumber.toString();
+        }
+      }
+
+      console.warn(chalk.yellow(`⚠️  No PR found for branch: ${branch}`));
+      return null;
+    } catch (error) {
+      console.warn(
+        chalk.yellow(`⚠️  Could not detect Azure DevOps PR ID: ${formatHttpError(error)}`)
+      );
       return null;
     }
   }
 
   /**
    * Handles SonarQube API response
+   * The payload is validated against the sonarflow domain model so schema drift is reported clearly
    * @param response - Fetch response
+   * @param schema - Domain schema of the expected payload
+   * @param label - Name of the payload used in error messages (e.g. "issues")
    * @returns Parsed JSON response
    */
-  async handleSonarResponse(response: Response): Promise<SonarResponse> {
+  async handleSonarResponse<T extends z.ZodTypeAny>(
+    response: Response,
+    schema: T,
+    label: string
+  ): Promise<z.infer<T>> {
     const contentType = response.headers.get("content-type");
     if (!contentType?.includes("application/json")) {
       const errorText = await response.text();
@@ -301,7 +586,7 @@ export class SonarIssueExtractor {
       );
     }
 
-    return (await response.json()) as SonarResponse;
+    return parseSonarPayload(schema, await response.json(), label);
   }
 
   /**
@@ -326,23 +611,186 @@ export class SonarIssueExtractor {
   }
 
   /**
-   * Extracts PR key from a SonarQube PR link
-   * @param prLink - SonarQube PR link
-   * @returns PR key
-   * @throws Error if the link format is invalid
+   * Performs an authenticated GET request against the SonarQube API
+   * @param url - Complete request URL
+   * @param config - Configuration object
+   * @param schema - Domain schema of the expected payload
+   * @param label - Name of the payload used in error messages
+   * @returns Parsed JSON response
    */
-  private extractPrKeyFromLink(prLink: string): string {
-    const prKeyMatch = prLink.match(/pullRequest=([^&]+)/);
-    if (!prKeyMatch) {
-      throw new Error(
-        "Invalid SonarQube PR link format. Expected format: https://sonarcloud.io/project/issues?id=project&pullRequest=PR_KEY"
+  private async sonarGet<T extends z.ZodTypeAny>(
+    url: string,
+    config: Config,
+    schema: T,
+    label: string
+  ): Promise<z.infer<T>> {
+    const authHeaders = config.publicSonar ? {} : this.getSonarAuthHeaders(this.sonarToken);
+    const response = await httpRequest(url, {
+      service: "SonarQube",
+      headers: {
+        ...authHeaders,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+    });
+
+    return await this.handleSonarResponse(response, schema, label);
+  }
+
+  /**
+   * Fetches every page of a paginated search, following `paging.total`
+   * Stops at SONAR_MAX_RESULTS because SonarQube refuses to page past that limit
+   * @param fetchPage - Fetches a single page (1-based)
+   * @param itemsKey - Response property holding the paginated items
+   * @param firstPage - Already fetched first page, if any
+   * @returns All fetched pages, in order
+   */
+  private async fetchAllPages<T extends PagedResponse>(
+    fetchPage: (page: number) => Promise<T>,
+    itemsKey: "issues" | "hotspots",
+    firstPage?: T
+  ): Promise<T[]> {
+    const pages = [firstPage ?? (await fetchPage(1))];
+    const total = pages[0].paging?.total ?? 0;
+    const reachable = Math.min(total, SONAR_MAX_RESULTS);
+    const countItems = (page: T): number =>
+      Array.isArray(page[itemsKey]) ? (page[itemsKey] as unknown[]).length : 0;
+
+    let fetched = countItems(pages[0]);
+    let page = 1;
+    while (fetched < reachable && page * SONAR_MAX_PAGE_SIZE < SONAR_MAX_RESULTS) {
+      page++;
+      const nextPage = await fetchPage(page);
+      const count = countItems(nextPage);
+      if (count === 0) break;
+      pages.push(nextPage);
+      fetched += count;
+    }
+
+    if (pages.length > 1) {
+      console.log(
+        chalk.blue(`📄 Fetched ${fetched}/${total} ${itemsKey} in ${pages.length} pages`)
+      );
+    }
+
+    return pages;
+  }
+
+  /**
+   * Merges paginated responses into a single response
+   * Items and side-loaded entities (components, rules, users) are concatenated and de-duplicated
+   * @param pages - Pages to merge (the first one provides facets and other metadata)
+   * @param itemsKey - Response property holding the paginated items
+   * @param total - Total number of results reported by SonarQube
+   * @returns Merged response with rewritten paging and a truncation flag
+   */
+  private mergePages<T extends PagedResponse>(
+    pages: T[],
+    itemsKey: "issues" | "hotspots",
+    total: number
+  ): T {
+    const dedupe = (key: string, idField: string): unknown[] => {
+      const seen = new Map<unknown, unknown>();
+      for (const page of pages) {
+        const entries = page[key];
+        if (!Array.isArray(entries)) continue;
+        for (const entry of entries as Array<Record<string, unknown>>) {
+          const id = entry?.[idField] ?? JSON.stringify(entry);
+          if (!seen.has(id)) seen.set(id, entry);
+        }
+      }
+      return [...seen.values()];
+    };
+
+    const items = dedupe(itemsKey, "key");
+    const merged: PagedResponse = {
+      ...pages[0],
+      [itemsKey]: items,
+      paging: { pageIndex: 1, pageSize: items.length, total },
+      truncated: items.length < total,
+    };
+
+    for (const [key, idField] of [
+      ["components", "key"],
+      ["rules", "key"],
+      ["users", "login"],
+    ]) {
+      if (pages.some((page) => Array.isArray(page[key]))) {
+        merged[key] = dedupe(key, idField);
+      }
+    }
+
+    // Deprecated top-level paging fields would contradict the merged paging
+    delete merged.p;
+    delete merged.ps;
+    if ("total" in merged) merged.total = total;
+
+    return merged as T;
+  }
+
+  /**
+   * Fetches issues beyond the SonarQube result cap by splitting the query per rule
+   * Rules that still exceed the cap, or that the facet does not list, are reported as truncated
+   * @param urlBuilder - URL builder for the issues API
+   * @param config - Configuration object
+   * @param options - URL building options (branch or pullRequest)
+   * @param total - Total number of issues reported by SonarQube
+   * @returns Merged issues data
+   */
+  private async fetchIssuesSplitByRule(
+    urlBuilder: SonarUrlBuilder,
+    config: Config,
+    options: { branch?: string; pullRequest?: string },
+    total: number
+  ): Promise<SonarIssuesResponse> {
+    console.warn(
+      chalk.yellow(
+        `⚠️  ${total} issues exceed the SonarQube limit of ${SONAR_MAX_RESULTS} per query, splitting by rule`
+      )
+    );
+
+    const facetResponse = await this.sonarGet(
+      urlBuilder.buildUrl({ ...options, pageSize: 1, facets: "rules" }),
+      config,
+      sonarIssuesResponseSchema,
+      "issues"
+    );
+    const rulesFacet = facetResponse.facets?.find((facet) => facet.property === "rules");
+    const ruleKeys = (rulesFacet?.values ?? [])
+      .filter((value) => value.count > 0)
+      .map((value) => value.val);
+
+    const pages: SonarIssuesResponse[] = [];
+    for (const rule of ruleKeys) {
+      const rulePages = await this.fetchAllPages(
+        (page) =>
+          this.sonarGet(
+            urlBuilder.buildUrl({ ...options, rules: rule, page, pageSize: SONAR_MAX_PAGE_SIZE }),
+            config,
+            sonarIssuesResponseSchema,
+            "issues"
+          ),
+        "issues"
       );
+      pages.push(...rulePages);
+    }
+
+    if (pages.length === 0) {
+      pages.push(facetResponse);
     }
-    return prKeyMatch[1];
+
+    const merged = this.mergePages(pages, "issues", total);
+    merged.facets = facetResponse.facets;
+    merged.issues?.sort((a, b) => {
+      const byComponent = a.component.localeCompare(b.component);
+      return byComponent !== 0 ? byComponent : (a.line ?? 0) - (b.line ?? 0);
+    });
+    return merged;
   }
 
   /**
    * Fetches SonarQube issues using the provided URL builder options
+   * All pages are fetched and merged; `truncated` is set when SonarQube did not return every issue
    * @param config - Configuration object
    * @param options - URL building options (branch or pullRequest)
    * @param logMessage - Optional custom log message
@@ -352,9 +800,9 @@ export class SonarIssueExtractor {
     config: Config,
     options: { branch?: string; pullRequest?: string },
     logMessage?: string
-  ): Promise<SonarResponse> {
+  ): Promise<SonarIssuesResponse> {
     const urlBuilder = this.createUrlBuilder(config);
-    const url = urlBuilder.buildUrl(options);
+    const url = urlBuilder.buildUrl({ ...options, page: 1, pageSize: SONAR_MAX_PAGE_SIZE });
 
     console.log(chalk.blue(`URL: ${url}`));
 
@@ -362,16 +810,37 @@ export class SonarIssueExtractor {
       console.log(chalk.blue(logMessage));
     }
 
-    const authHeaders = config.publicSonar ? {} : this.getSonarAuthHeaders(this.sonarToken);
-    const response = await fetch(url, {
-      headers: {
-        ...authHeaders,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-    });
+    const firstPage = await this.sonarGet(url, config, sonarIssuesResponseSchema, "issues");
+    const total = firstPage.paging?.total ?? firstPage.issues?.length ?? 0;
 
-    return await this.handleSonarResponse(response);
+    const merged =
+      total > SONAR_MAX_RESULTS
+        ? await this.fetchIssuesSplitByRule(urlBuilder, config, options, total)
+        : this.mergePages(
+            await this.fetchAllPages(
+              (page) =>
+                this.sonarGet(
+                  urlBuilder.buildUrl({ ...options, page, pageSize: SONAR_MAX_PAGE_SIZE }),
+                  config,
+                  sonarIssuesResponseSchema,
+                  "issues"
+                ),
+              "issues",
+              firstPage
+            ),
+            "issues",
+            total
+          );
+
+    if (merged.truncated) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  Results truncated: fetched ${merged.issues?.length ?? 0} of ${total} issues`
+        )
+      );
+    }
+
+    return merged;
   }
 
   /**
@@ -380,7 +849,7 @@ export class SonarIssueExtractor {
    * @param config - Configuration object
    * @returns Issues data
    */
-  async fetchIssuesForBranch(branch: string, config: Config): Promise<SonarResponse> {
+  async fetchIssuesForBranch(branch: string, config: Config): Promise<SonarIssuesResponse> {
     return await this.fetchIssues(config, { branch });
   }
 
@@ -390,8 +859,8 @@ export class SonarIssueExtractor {
    * @param config - Configuration object
    * @returns Issues data
    */
-  async fetchIssuesForPr(prLink: string, config: Config): Promise<SonarResponse> {
-    const prKey = this.extractPrKeyFromLink(prLink);
+  async fetchIssuesForPr(prLink: string, config: Config): Promise<SonarIssuesResponse> {
+    const prKey = extractPrKeyFromLink(prLink);
     return await this.fetchIssues(
       config,
       { pullRequest: prKey },
@@ -405,7 +874,7 @@ export class SonarIssueExtractor {
    * @param config - Configuration object
    * @returns Issues data
    */
-  async fetchIssuesForPrId(prId: string, config: Config): Promise<SonarResponse> {
+  async fetchIssuesForPrId(prId: string, config: Config): Promise<SonarIssuesResponse> {
     return await this.fetchIssues(
       config,
       { pullRequest: prId },
@@ -441,6 +910,63 @@ export class SonarIssueExtractor {
     return url;
   }
 
+  /**
+   * Builds the base URL for project branches API endpoint
+   * @param baseUrl - SonarQube base URL
+   * @returns Normalized project branches API URL
+   */
+  private buildProjectBranchesUrl(baseUrl: string): string {
+    let url = baseUrl;
+    if (!url.includes("/api/project_branches/list")) {
+      url = url.replace(/\/api\/issues\/search$/, "").replace(/\/$/, "");
+      url = `${url}/api/project_branches/list`;
+    }
+    return url;
+  }
+
+  /**
+   * Builds the base URL for quality gate status API endpoint
+   * @param baseUrl - SonarQube base URL
+   * @returns Normalized quality gate status API URL
+   */
+  private buildQualityGateStatusUrl(baseUrl: string): string {
+    let url = baseUrl;
+    if (!url.includes("/api/qualitygates/project_status")) {
+      url = url.replace(/\/api\/issues\/search$/, "").replace(/\/$/, "");
+      url = `${url}/api/qualitygates/project_status`;
+    }
+    return url;
+  }
+
+  /**
+   * Builds the URL of another SonarQube Web API endpoint from the configured base URL
+   * @param baseUrl - SonarQube base URL (normalized to /api/issues/search)
+   * @param endpoint - API path (e.g. /api/rules/show)
+   * @returns Endpoint URL
+   */
+  private buildApiUrl(baseUrl: string, endpoint: string): string {
+    return `${baseUrl.replace(/\/api\/issues\/search$/, "").replace(/\/$/, "")}${endpoint}`;
+  }
+
+  /**
+   * Discovers the main branch of the Sonar project
+   * @param config - Configuration object
+   * @returns Main branch name, or null when the project reports none
+   */
+  async fetchMainBranch(config: Config): Promise<string | null> {
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    const params = new URLSearchParams({ project: this.getComponentKey(config) });
+    const url = `${this.buildProjectBranchesUrl(baseUrl)}?${params.toString()}`;
+
+    const response = await this.sonarGet(
+      url,
+      config,
+      sonarProjectBranchesResponseSchema,
+      "project branches"
+    );
+    return response.branches.find((branch) => branch.isMain)?.name ?? null;
+  }
+
   /**
    * Fetches measures (duplications, coverage) for a PR or branch
    * @param config - Configuration object
@@ -450,7 +976,7 @@ export class SonarIssueExtractor {
   async fetchMeasures(
     config: Config,
     options: { branch?: string; pullRequest?: string }
-  ): Promise<Record<string, unknown>> {
+  ): Promise<SonarMeasuresResponse> {
     const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
     const measuresUrl = this.buildMeasuresUrl(baseUrl);
 
@@ -488,16 +1014,7 @@ export class SonarIssueExtractor {
 
     const url = `${measuresUrl}?${params.toString()}`;
 
-    const authHeaders = config.publicSonar ? {} : this.getSonarAuthHeaders(this.sonarToken);
-    const response = await fetch(url, {
-      headers: {
-        ...authHeaders,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-    });
-
-    return (await this.handleSonarResponse(response)) as Record<string, unknown>;
+    return await this.sonarGet(url, config, sonarMeasuresResponseSchema, "measures");
   }
 
   /**
@@ -509,7 +1026,7 @@ export class SonarIssueExtractor {
   async fetchSecurityHotspots(
     config: Config,
     options: { branch?: string; pullRequest?: string }
-  ): Promise<Record<string, unknown>> {
+  ): Promise<SonarHotspotsResponse> {
     const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
     const hotspotsUrl = this.buildHotspotsUrl(baseUrl);
 
@@ -518,8 +1035,7 @@ export class SonarIssueExtractor {
 
     const params = new URLSearchParams({
       projectKey: projectKey,
-      p: "1",
-      ps: "100",
+      ps: String(SONAR_MAX_PAGE_SIZE),
     });
 
     if (options.pullRequest) {
@@ -528,17 +1044,214 @@ export class SonarIssueExtractor {
       params.set("branch", options.branch);
     }
 
-    const url = `${hotspotsUrl}?${params.toString()}`;
+    const pages = await this.fetchAllPages((page) => {
+      params.set("p", String(page));
+      return this.sonarGet(
+        `${hotspotsUrl}?${params.toString()}`,
+        config,
+        sonarHotspotsResponseSchema,
+        "security hotspots"
+      );
+    }, "hotspots");
+    const total = pages[0].paging?.total ?? 0;
+    const merged = this.mergePages(pages, "hotspots", total);
+
+    if (merged.truncated) {
+      const fetched = merged.hotspots?.length ?? 0;
+      console.warn(
+        chalk.yellow(`⚠️  Results truncated: fetched ${fetched} of ${total} security hotspots`)
+      );
+    }
+
+    return merged;
+  }
+
+  /**
+   * Fetches the quality gate status of a PR or branch
+   * @param config - Configuration object
+   * @param options - URL building options (branch or pullRequest)
+   * @returns Quality gate status with its conditions
+   */
+  async fetchQualityGateStatus(
+    config: Config,
+    options: { branch?: string; pullRequest?: string }
+  ): Promise<SonarQualityGateStatusResponse> {
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    const params = new URLSearchParams({ projectKey: this.getComponentKey(config) });
+
+    // SonarCloud scopes projects by organization
+    if (config.sonarOrganization) {
+      params.set("organization", config.sonarOrganization);
+    }
+
+    if (options.pullRequest) {
+      params.set("pullRequest", options.pullRequest);
+    } else if (options.branch) {
+      params.set("branch", options.branch);
+    }
+
+    const url = `${this.buildQualityGateStatusUrl(baseUrl)}?${params.toString()}`;
+
+    return await this.sonarGet(
+      url,
+      config,
+      sonarQualityGateStatusResponseSchema,
+      "quality gate status"
+    );
+  }
+
+  /**
+   * Fetches the version of the SonarQube server
+   * @param config - Configuration object
+   * @returns Server version (e.g. 10.4.1.88267)
+   */
+  async fetchServerVersion(config: Config): Promise<string> {
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    const authHeaders = config.publicSonar ? {} : this.getSonarAuthHeaders(this.sonarToken);
+    const response = await httpRequest(this.buildApiUrl(baseUrl, "/api/server/version"), {
+      service: "SonarQube",
+      headers: authHeaders,
+    });
+    return (await response.text()).trim();
+  }
+
+  /**
+   * Fetches the details of a rule: name, description sections, type and impacts
+   * @param config - Configuration object
+   * @param ruleKey - Rule key (e.g. typescript:S3776)
+   * @returns Rule details
+   */
+  async fetchRule(config: Config, ruleKey: string): Promise<SonarRuleDetails> {
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    const params = new URLSearchParams({ key: ruleKey });
+
+    // SonarCloud scopes rules by organization
+    if (config.sonarOrganization) {
+      params.set("organization", config.sonarOrganization);
+    }
+
+    const url = `${this.buildApiUrl(baseUrl, "/api/rules/show")}?${params.toString()}`;
+    const response = await this.sonarGet(url, config, sonarRuleShowResponseSchema, "rule");
+    return response.rule;
+  }
+
+  /**
+   * Fetches the raw content of a file as analyzed by SonarQube
+   * @param config - Configuration object
+   * @param componentKey - File component key
+   * @param options - URL building options (branch or pullRequest)
+   * @returns File content
+   */
+  async fetchSourceRaw(
+    config: Config,
+    componentKey: string,
+    options: { branch?: string; pullRequest?: string }
+  ): Promise<string> {
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    const params = new URLSearchParams({ key: componentKey });
+    if (options.pullRequest) {
+      params.set("pullRequest", options.pullRequest);
+    } else if (options.branch) {
+      params.set("branch", options.branch);
+    }
 
     const authHeaders = config.publicSonar ? {} : this.getSonarAuthHeaders(this.sonarToken);
-    const response = await fetch(url, {
+    const response = await httpRequest(
+      `${this.buildApiUrl(baseUrl, "/api/sources/raw")}?${params.toString()}`,
+      { service: "SonarQube", headers: authHeaders }
+    );
+    return await response.text();
+  }
+
+  /**
+   * Fetches the commit of the latest analysis of a PR or branch
+   * @param config - Configuration object
+   * @param options - URL building options (branch or pullRequest)
+   * @returns Analyzed revision, or null when SonarQube does not report one
+   */
+  async fetchAnalyzedRevision(
+    config: Config,
+    options: { branch?: string; pullRequest?: string }
+  ): Promise<string | null> {
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    const params = new URLSearchParams({ project: this.getComponentKey(config), ps: "1" });
+    if (config.sonarOrganization) {
+      params.set("organization", config.sonarOrganization);
+    }
+    if (options.pullRequest) {
+      params.set("pullRequest", options.pullRequest);
+    } else if (options.branch) {
+      params.set("branch", options.branch);
+    }
+
+    const url = `${this.buildApiUrl(baseUrl, "/api/project_analyses/search")}?${params.toString()}`;
+    const response = await this.sonarGet(
+      url,
+      config,
+      sonarProjectAnalysesResponseSchema,
+      "project analyses"
+    );
+    return response.analyses[0]?.revision ?? null;
+  }
+
+  /**
+   * Sends a write request to the SonarQube Web API
+   * Changing issues always requires a token, even on public projects
+   * @param config - Configuration object
+   * @param endpoint - API endpoint (e.g. /api/issues/assign)
+   * @param params - Form parameters
+   * @throws Error when SONAR_TOKEN is not set
+   */
+  private async sonarPost(
+    config: Config,
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<void> {
+    if (!this.sonarToken) {
+      throw new Error("SONAR_TOKEN is required to change issues");
+    }
+    const baseUrl = SonarUrlBuilder.normalizeUrl(config.sonarBaseUrl || this.sonarBaseUrlRaw);
+    await httpRequest(this.buildApiUrl(baseUrl, endpoint), {
+      service: "SonarQube",
+      method: "POST",
+      // Sonar may apply a change before failing: repeating it would e.g. post a comment twice.
+      // Rate limits are still retried, as the server did not process the request
+      retryUnsafeMethods: false,
       headers: {
-        ...authHeaders,
-        "Content-Type": "application/json",
-        Accept: "application/json",
+        ...this.getSonarAuthHeaders(this.sonarToken),
+        "Content-Type": "application/x-www-form-urlencoded",
       },
+      body: new URLSearchParams(params).toString(),
     });
+  }
 
-    return (await this.handleSonarResponse(response)) as Record<string, unknown>;
+  /**
+   * Applies a workflow transition to an issue
+   * @param config - Configuration object
+   * @param issueKey - Issue key
+   * @param transition - Transition (e.g. falsepositive, wontfix, confirm, reopen)
+   */
+  async transitionIssue(config: Config, issueKey: string, transition: string): Promise<void> {
+    await this.sonarPost(config, "/api/issues/do_transition", { issue: issueKey, transition });
+  }
+
+  /**
+   * Adds a comment to an issue
+   * @param config - Configuration object
+   * @param issueKey - Issue key
+   * @param text - Comment text (Markdown)
+   */
+  async commentIssue(config: Config, issueKey: string, text: string): Promise<void> {
+    await this.sonarPost(config, "/api/issues/add_comment", { issue: issueKey, text });
+  }
+
+  /**
+   * Assigns an issue to a user
+   * @param config - Configuration object
+   * @param issueKey - Issue key
+   * @param login - User login
+   */
+  async assignIssue(config: Config, issueKey: string, login: string): Promise<void> {
+    await this.sonarPost(config, "/api/issues/assign", { issue: issueKey, assignee: login });
   }
 }
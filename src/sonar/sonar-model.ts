@@ -0,0 +1,476 @@
+import chalk from "chalk";
+import { z } from "zod";
+
+/**
+ * Version of the sonarflow output contract (issues.json, measures.json, security-hotspots.json)
+ * Bump it whenever a schema below changes in a non-additive way
+ */
+export const SONAR_MODEL_VERSION = 1;
+
+/**
+ * Unknown enum values already reported, so each is warned about once
+ */
+const reportedUnknownValues = new Set<string>();
+
+/**
+ * Enum Sonar may extend in newer versions (e.g. new impact severities)
+ * Unknown values are kept and reported with a warning instead of rejecting the whole response
+ * @param field - Field name, used in the warning
+ * @param values - Known values
+ * @returns Schema typed with the known values, accepting any string
+ */
+const sonarEnum = <T extends [string, ...string[]]>(field: string, values: T) =>
+  z.enum(values).or(
+    z.string().transform((value) => {
+      if (!reportedUnknownValues.has(`${field}:${value}`)) {
+        reportedUnknownValues.add(`${field}:${value}`);
+        console.warn(chalk.yellow(`⚠️  Unknown Sonar ${field} "${value}", kept as-is`));
+      }
+      return value as string & {};
+    })
+  );
+
+/**
+ * Location inside a file
+ */
+export const sonarTextRangeSchema = z
+  .object({
+    startLine: z.number(),
+    endLine: z.number(),
+    startOffset: z.number().optional(),
+    endOffset: z.number().optional(),
+  })
+  .passthrough();
+
+/**
+ * Secondary location of an issue (data flow, execution flow)
+ */
+export const sonarFlowLocationSchema = z
+  .object({
+    component: z.string(),
+    textRange: sonarTextRangeSchema.optional(),
+    msg: z.string().optional(),
+  })
+  .passthrough();
+
+export const sonarFlowSchema = z
+  .object({
+    locations: z.array(sonarFlowLocationSchema),
+    type: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Impact of an issue on a software quality (Clean Code taxonomy)
+ */
+export const sonarImpactSchema = z
+  .object({
+    softwareQuality: sonarEnum("software quality", ["MAINTAINABILITY", "RELIABILITY", "SECURITY"]),
+    severity: sonarEnum("impact severity", ["INFO", "LOW", "MEDIUM", "HIGH", "BLOCKER"]),
+  })
+  .passthrough();
+
+export const sonarSeveritySchema = sonarEnum("severity", [
+  "BLOCKER",
+  "CRITICAL",
+  "MAJOR",
+  "MINOR",
+  "INFO",
+]);
+
+export const sonarIssueTypeSchema = sonarEnum("issue type", [
+  "CODE_SMELL",
+  "BUG",
+  "VULNERABILITY",
+  "SECURITY_HOTSPOT",
+]);
+
+/**
+ * Source lines attached to an issue by `fetch --with-sources`
+ */
+export const sonarflowSnippetSchema = z
+  .object({
+    /** Commit analyzed by SonarQube */
+    revision: z.string().optional(),
+    /** Whether the flagged lines are unchanged in the working tree (absent when the file is missing) */
+    matchesWorkingTree: z.boolean().optional(),
+    lines: z.array(
+      z.object({ line: z.number(), code: z.string(), flagged: z.boolean() }).passthrough()
+    ),
+  })
+  .passthrough();
+
+export const sonarIssueSchema = z
+  .object({
+    key: z.string(),
+    rule: z.string(),
+    component: z.string(),
+    project: z.string().optional(),
+    severity: sonarSeveritySchema.optional(),
+    type: sonarIssueTypeSchema.optional(),
+    message: z.string().optional(),
+    line: z.number().optional(),
+    hash: z.string().optional(),
+    textRange: sonarTextRangeSchema.optional(),
+    flows: z.array(sonarFlowSchema).optional(),
+    status: z.string().optional(),
+    issueStatus: z.string().optional(),
+    resolution: z.string().optional(),
+    effort: z.string().optional(),
+    debt: z.string().optional(),
+    author: z.string().optional(),
+    assignee: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    creationDate: z.string().optional(),
+    updateDate: z.string().optional(),
+    scope: z.string().optional(),
+    quickFixAvailable: z.boolean().optional(),
+    codeVariants: z.array(z.string()).optional(),
+    impacts: z.array(sonarImpactSchema).optional(),
+    cleanCodeAttribute: z.string().optional(),
+    cleanCodeAttributeCategory: sonarEnum("clean code attribute category", [
+      "ADAPTABLE",
+      "CONSISTENT",
+      "INTENTIONAL",
+      "RESPONSIBLE",
+    ]).optional(),
+    snippet: sonarflowSnippetSchema.optional(),
+  })
+  .passthrough();
+
+export const sonarComponentSchema = z
+  .object({
+    key: z.string(),
+    enabled: z.boolean().optional(),
+    qualifier: z.string().optional(),
+    name: z.string().optional(),
+    longName: z.string().optional(),
+    path: z.string().optional(),
+    project: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Rule as side-loaded by search endpoints (`additionalFields=_all`)
+ */
+export const sonarRuleSchema = z
+  .object({
+    key: z.string(),
+    name: z.string().optional(),
+    status: z.string().optional(),
+    lang: z.string().optional(),
+    langName: z.string().optional(),
+  })
+  .passthrough();
+
+export const sonarUserSchema = z
+  .object({
+    login: z.string(),
+    name: z.string().optional(),
+    active: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const sonarPagingSchema = z.object({
+  pageIndex: z.number(),
+  pageSize: z.number(),
+  total: z.number(),
+});
+
+export const sonarFacetSchema = z
+  .object({
+    property: z.string(),
+    values: z.array(z.object({ val: z.string(), count: z.number() }).passthrough()).optional(),
+  })
+  .passthrough();
+
+/**
+ * Records that issues come from a fallback branch rather than the requested one
+ */
+export const sonarflowFallbackSchema = z
+  .object({
+    requestedBranch: z.string(),
+    branch: z.string(),
+    reason: z.string(),
+  })
+  .passthrough();
+
+/**
+ * Issue counts of a diff-scoped fetch (`--changed-only`)
+ */
+export const sonarflowChangedOnlySchema = z
+  .object({
+    base: z.string(),
+    totalIssues: z.number(),
+    changedIssues: z.number(),
+  })
+  .passthrough();
+
+/**
+ * Summary of the source snippets attached by `--with-sources`
+ */
+export const sonarflowSourcesSchema = z
+  .object({
+    revision: z.string().optional(),
+    contextLines: z.number(),
+    snippets: z.number(),
+    mismatches: z.number(),
+  })
+  .passthrough();
+
+/**
+ * Sonar project fetched for a monorepo folder
+ */
+export const sonarflowProjectSchema = z
+  .object({
+    key: z.string(),
+    path: z.string(),
+    source: z.string(),
+    branch: z.string().optional(),
+    pullRequest: z.string().optional(),
+    fallback: sonarflowFallbackSchema.optional(),
+    issues: z.number(),
+  })
+  .passthrough();
+
+/**
+ * Metadata written by sonarflow next to the SonarQube payload in issues.json
+ */
+export const sonarflowMetadataSchema = z
+  .object({
+    schemaVersion: z.number(),
+    generatedAt: z.string(),
+    source: z.string(),
+    branch: z.string().optional(),
+    pullRequest: z.string().optional(),
+    fallback: sonarflowFallbackSchema.optional(),
+    changedOnly: sonarflowChangedOnlySchema.optional(),
+    sources: sonarflowSourcesSchema.optional(),
+    projects: z.array(sonarflowProjectSchema).optional(),
+  })
+  .passthrough();
+
+export const sonarIssuesResponseSchema = z
+  .object({
+    paging: sonarPagingSchema.optional(),
+    total: z.number().optional(),
+    effortTotal: z.number().optional(),
+    issues: z.array(sonarIssueSchema).optional(),
+    components: z.array(sonarComponentSchema).optional(),
+    rules: z.array(sonarRuleSchema).optional(),
+    users: z.array(sonarUserSchema).optional(),
+    facets: z.array(sonarFacetSchema).optional(),
+    truncated: z.boolean().optional(),
+    sonarflow: sonarflowMetadataSchema.optional(),
+  })
+  .passthrough();
+
+export const sonarMeasurePeriodSchema = z
+  .object({
+    index: z.number().optional(),
+    value: z.string().optional(),
+    bestValue: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const sonarMeasureSchema = z
+  .object({
+    metric: z.string(),
+    value: z.string().optional(),
+    bestValue: z.boolean().optional(),
+    period: sonarMeasurePeriodSchema.optional(),
+    periods: z.array(sonarMeasurePeriodSchema).optional(),
+  })
+  .passthrough();
+
+export const sonarMeasuresResponseSchema = z
+  .object({
+    component: sonarComponentSchema.extend({
+      measures: z.array(sonarMeasureSchema),
+    }),
+  })
+  .passthrough();
+
+export const sonarProjectBranchSchema = z
+  .object({
+    name: z.string(),
+    isMain: z.boolean().optional(),
+    type: z.string().optional(),
+  })
+  .passthrough();
+
+export const sonarProjectBranchesResponseSchema = z
+  .object({
+    branches: z.array(sonarProjectBranchSchema),
+  })
+  .passthrough();
+
+export const sonarHotspotSchema = z
+  .object({
+    key: z.string(),
+    component: z.string(),
+    project: z.string().optional(),
+    securityCategory: z.string().optional(),
+    vulnerabilityProbability: sonarEnum("vulnerability probability", [
+      "HIGH",
+      "MEDIUM",
+      "LOW",
+    ]).optional(),
+    status: z.string().optional(),
+    resolution: z.string().optional(),
+    line: z.number().optional(),
+    message: z.string().optional(),
+    author: z.string().optional(),
+    creationDate: z.string().optional(),
+    updateDate: z.string().optional(),
+    textRange: sonarTextRangeSchema.optional(),
+    flows: z.array(sonarFlowSchema).optional(),
+    ruleKey: z.string().optional(),
+  })
+  .passthrough();
+
+export const sonarHotspotsResponseSchema = z
+  .object({
+    paging: sonarPagingSchema.optional(),
+    hotspots: z.array(sonarHotspotSchema).optional(),
+    components: z.array(sonarComponentSchema).optional(),
+    truncated: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const sonarProjectAnalysesResponseSchema = z
+  .object({
+    analyses: z.array(
+      z.object({ key: z.string(), date: z.string(), revision: z.string().optional() }).passthrough()
+    ),
+  })
+  .passthrough();
+
+export const sonarRuleDescriptionSectionSchema = z
+  .object({
+    key: z.string(),
+    content: z.string(),
+    context: z.object({ key: z.string(), displayName: z.string() }).passthrough().optional(),
+  })
+  .passthrough();
+
+export const sonarRuleDetailsSchema = z
+  .object({
+    key: z.string(),
+    name: z.string(),
+    type: z.string().optional(),
+    severity: z.string().optional(),
+    lang: z.string().optional(),
+    langName: z.string().optional(),
+    htmlDesc: z.string().optional(),
+    mdDesc: z.string().optional(),
+    descriptionSections: z.array(sonarRuleDescriptionSectionSchema).optional(),
+    impacts: z.array(sonarImpactSchema).optional(),
+    cleanCodeAttribute: z.string().optional(),
+    cleanCodeAttributeCategory: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    sysTags: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+export const sonarRuleShowResponseSchema = z
+  .object({
+    rule: sonarRuleDetailsSchema,
+  })
+  .passthrough();
+
+export const sonarQualityGateConditionSchema = z
+  .object({
+    status: z.string(),
+    metricKey: z.string(),
+    comparator: z.string().optional(),
+    errorThreshold: z.string().optional(),
+    actualValue: z.string().optional(),
+  })
+  .passthrough();
+
+export const sonarQualityGateStatusResponseSchema = z
+  .object({
+    projectStatus: z
+      .object({
+        status: z.string(),
+        conditions: z.array(sonarQualityGateConditionSchema).optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export type SonarTextRange = z.infer<typeof sonarTextRangeSchema>;
+export type SonarFlow = z.infer<typeof sonarFlowSchema>;
+export type SonarImpact = z.infer<typeof sonarImpactSchema>;
+export type SonarIssue = z.infer<typeof sonarIssueSchema>;
+export type SonarComponent = z.infer<typeof sonarComponentSchema>;
+export type SonarRule = z.infer<typeof sonarRuleSchema>;
+export type SonarPaging = z.infer<typeof sonarPagingSchema>;
+export type SonarFacet = z.infer<typeof sonarFacetSchema>;
+export type SonarflowFallback = z.infer<typeof sonarflowFallbackSchema>;
+export type SonarflowChangedOnly = z.infer<typeof sonarflowChangedOnlySchema>;
+export type SonarflowSnippet = z.infer<typeof sonarflowSnippetSchema>;
+export type SonarflowSources = z.infer<typeof sonarflowSourcesSchema>;
+export type SonarflowProject = z.infer<typeof sonarflowProjectSchema>;
+export type SonarflowMetadata = z.infer<typeof sonarflowMetadataSchema>;
+export type SonarIssuesResponse = z.infer<typeof sonarIssuesResponseSchema>;
+export type SonarMeasure = z.infer<typeof sonarMeasureSchema>;
+export type SonarMeasuresResponse = z.infer<typeof sonarMeasuresResponseSchema>;
+export type SonarProjectBranch = z.infer<typeof sonarProjectBranchSchema>;
+export type SonarHotspot = z.infer<typeof sonarHotspotSchema>;
+export type SonarHotspotsResponse = z.infer<typeof sonarHotspotsResponseSchema>;
+export type SonarRuleDescriptionSection = z.infer<typeof sonarRuleDescriptionSectionSchema>;
+export type SonarRuleDetails = z.infer<typeof sonarRuleDetailsSchema>;
+export type SonarRuleShowResponse = z.infer<typeof sonarRuleShowResponseSchema>;
+export type SonarQualityGateCondition = z.infer<typeof sonarQualityGateConditionSchema>;
+export type SonarQualityGateStatusResponse = z.infer<typeof sonarQualityGateStatusResponseSchema>;
+
+/**
+ * Maximum number of schema violations listed in a SonarSchemaError message
+ */
+const MAX_REPORTED_VIOLATIONS = 10;
+
+/**
+ * Raised when a SonarQube response no longer matches the sonarflow domain model
+ */
+export class SonarSchemaError extends Error {
+  readonly violations: string[];
+
+  constructor(label: string, violations: string[]) {
+    const listed = violations.slice(0, MAX_REPORTED_VIOLATIONS).map((v) => `  - ${v}`);
+    if (violations.length > MAX_REPORTED_VIOLATIONS) {
+      listed.push(`  - ...and ${violations.length - MAX_REPORTED_VIOLATIONS} more`);
+    }
+    super(
+      `SonarQube ${label} response does not match the sonarflow model v${SONAR_MODEL_VERSION} (schema drift):\n${listed.join("\n")}`
+    );
+    this.name = "SonarSchemaError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Validates a SonarQube payload against a domain schema
+ * Unknown fields are preserved; missing required fields or unexpected values are reported
+ * @param schema - Zod schema of the expected payload
+ * @param data - Raw JSON payload
+ * @param label - Name of the payload used in error messages (e.g. "issues")
+ * @returns Parsed payload
+ * @throws SonarSchemaError listing every violation path
+ */
+export const parseSonarPayload = <T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  label: string
+): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const violations = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new SonarSchemaError(label, violations);
+  }
+  return result.data;
+};
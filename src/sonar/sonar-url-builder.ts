@@ -1,3 +1,13 @@
+/**
+ * Maximum page size accepted by the SonarQube search APIs
+ */
+export const SONAR_MAX_PAGE_SIZE = 500;
+
+/**
+ * Maximum number of results SonarQube returns for a single search query (p * ps <= 10000)
+ */
+export const SONAR_MAX_RESULTS = 10000;
+
 /**
  * Minimal configuration needed for URL building
  */
@@ -17,6 +27,10 @@ interface UrlBuilderConfig {
 interface UrlBuildOptions {
   branch?: string;
   pullRequest?: string;
+  page?: number;
+  pageSize?: number;
+  rules?: string;
+  facets?: string;
 }
 
 /**
@@ -65,12 +79,13 @@ export class SonarUrlBuilder {
 
   /**
    * Builds the base query parameters common to all SonarQube requests
+   * @param pageSize - Number of issues per page
    * @returns Base URLSearchParams with common parameters
    */
-  private buildBaseParams(): URLSearchParams {
+  private buildBaseParams(pageSize = 100): URLSearchParams {
     const params = new URLSearchParams({
       s: "FILE_LINE",
-      ps: "100",
+      ps: String(pageSize),
       additionalFields: "_all",
     });
 
@@ -103,11 +118,23 @@ export class SonarUrlBuilder {
 
   /**
    * Builds a URL for fetching SonarQube issues
-   * @param options - Options for branch or pullRequest
+   * @param options - Options for branch or pullRequest, paging, rule filter and facets
    * @returns Complete URL with query parameters
    */
   buildUrl(options: UrlBuildOptions): string {
-    const params = this.buildBaseParams();
+    const params = this.buildBaseParams(options.pageSize);
+
+    if (options.page) {
+      params.set("p", String(options.page));
+    }
+
+    if (options.rules) {
+      params.set("rules", options.rules);
+    }
+
+    if (options.facets) {
+      params.set("facets", options.facets);
+    }
 
     if (options.branch) {
       params.set("branch", options.branch);
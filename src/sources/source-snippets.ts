@@ -0,0 +1,160 @@
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { componentToPath } from "../git/changed-lines.js";
+import { formatHttpError } from "../http/http-errors.js";
+import type { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import type {
+  SonarflowSnippet,
+  SonarflowSources,
+  SonarIssue,
+  SonarIssuesResponse,
+} from "../sonar/sonar-model.js";
+import type { ProjectConfig } from "../versioning/project-config.js";
+
+/**
+ * Lines of context around the flagged lines, by default
+ */
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Files fetched in parallel
+ */
+const CONCURRENCY = 5;
+
+/**
+ * Splits a file into lines
+ * @param content - File content
+ * @returns Lines, without line terminators
+ */
+const splitLines = (content: string): string[] => content.split(/\r?\n/);
+
+/**
+ * Lines flagged by an issue
+ * @param issue - SonarQube issue
+ * @returns First and last flagged lines, or null for file-level issues
+ */
+const flaggedRange = (issue: SonarIssue): { start: number; end: number } | null => {
+  const start = issue.textRange?.startLine ?? issue.line;
+  if (start === undefined) {
+    return null;
+  }
+  return { start, end: Math.max(issue.textRange?.endLine ?? start, start) };
+};
+
+/**
+ * Builds the snippet of an issue from the analyzed file
+ * @param issue - SonarQube issue
+ * @param analyzed - Lines of the file as analyzed by SonarQube
+ * @param current - Lines of the file in the working tree, or null when it is missing
+ * @param contextLines - Lines of context before and after the flagged lines
+ * @param revision - Analyzed revision, if known
+ * @returns Snippet, or null for file-level issues and lines outside the file
+ */
+const buildSnippet = (
+  issue: SonarIssue,
+  analyzed: string[],
+  current: string[] | null,
+  contextLines: number,
+  revision: string | undefined
+): SonarflowSnippet | null => {
+  const range = flaggedRange(issue);
+  if (!range || range.start > analyzed.length) {
+    return null;
+  }
+
+  const from = Math.max(1, range.start - contextLines);
+  const to = Math.min(analyzed.length, range.end + contextLines);
+  const lines = analyzed.slice(from - 1, to).map((code, index) => ({
+    line: from + index,
+    code,
+    flagged: from + index >= range.start && from + index <= range.end,
+  }));
+  const flagged = lines.filter((line) => line.flagged);
+
+  return {
+    ...(revision && { revision }),
+    ...(current && {
+      matchesWorkingTree: flagged.every((line) => current[line.line - 1] === line.code),
+    }),
+    lines,
+  };
+};
+
+/**
+ * Attaches the analyzed source lines to each issue (`snippet`), with the analyzed revision
+ * Each file is fetched once; flagged lines are compared with the working tree, so a fix is
+ * only applied to code that still matches. Files that cannot be fetched are reported and skipped
+ * @param extractor - SonarQube extractor
+ * @param config - Configuration object
+ * @param issues - Fetched issues, updated in place
+ * @param scope - Branch or pull request of the fetch
+ * @param contextLines - Lines of context before and after the flagged lines
+ * @returns Summary written to the sonarflow metadata
+ */
+export const attachSourceSnippets = async (
+  extractor: SonarIssueExtractor,
+  config: ProjectConfig,
+  issues: SonarIssuesResponse,
+  scope: { branch?: string; pullRequest?: string },
+  contextLines: number
+): Promise<SonarflowSources> => {
+  let revision: string | undefined;
+  try {
+    revision = (await extractor.fetchAnalyzedRevision(config, scope)) ?? undefined;
+  } catch (error) {
+    console.warn(
+      chalk.yellow(`⚠️  Could not read the analyzed revision: ${formatHttpError(error)}`)
+    );
+  }
+
+  const paths = new Map<string, string>();
+  for (const component of issues.components ?? []) {
+    if (component.path) {
+      paths.set(component.key, component.path);
+    }
+  }
+
+  const byComponent = new Map<string, SonarIssue[]>();
+  for (const issue of issues.issues ?? []) {
+    if (flaggedRange(issue)) {
+      byComponent.set(issue.component, [...(byComponent.get(issue.component) ?? []), issue]);
+    }
+  }
+
+  const components = [...byComponent.keys()];
+  for (let start = 0; start < components.length; start += CONCURRENCY) {
+    await Promise.all(
+      components.slice(start, start + CONCURRENCY).map(async (component) => {
+        let analyzed: string[];
+        try {
+          analyzed = splitLines(await extractor.fetchSourceRaw(config, component, scope));
+        } catch (error) {
+          console.warn(
+            chalk.yellow(`⚠️  Failed to fetch the source of ${component}: ${formatHttpError(error)}`)
+          );
+          return;
+        }
+
+        const filePath = path.resolve(paths.get(component) ?? componentToPath(component));
+        const current = fs.existsSync(filePath)
+          ? splitLines(fs.readFileSync(filePath, "utf8"))
+          : null;
+        for (const issue of byComponent.get(component) ?? []) {
+          const snippet = buildSnippet(issue, analyzed, current, contextLines, revision);
+          if (snippet) {
+            issue.snippet = snippet;
+          }
+        }
+      })
+    );
+  }
+
+  const snippets = (issues.issues ?? []).flatMap((issue) => (issue.snippet ? [issue.snippet] : []));
+  return {
+    ...(revision && { revision }),
+    contextLines,
+    snippets: snippets.length,
+    mismatches: snippets.filter((snippet) => snippet.matchesWorkingTree === false).length,
+  };
+};
@@ -0,0 +1,158 @@
+import chalk from "chalk";
+import { type Command, InvalidArgumentError, Option } from "commander";
+import { EXPORT_FORMATS, type ExportFormat } from "../export/export-formats.js";
+import { extractPrKeyFromLink } from "../sonar/pr-detection-utils.js";
+import { DEFAULT_CONTEXT_LINES } from "../sources/source-snippets.js";
+
+/**
+ * Options of the fetch command, as parsed by commander
+ */
+export interface FetchOptions {
+  /** Branch to fetch (defaults to the current git branch) */
+  branch?: string;
+  /** SonarQube pull request key */
+  pr?: string;
+  /** SonarQube pull request link */
+  prLink?: string;
+  /** Whether to look up an open PR for the branch on the git provider */
+  prDetect: boolean;
+  /** Output directory (overrides `outputPath` from .sonarflowrc.json) */
+  output?: string;
+  /** Branch used when the selected branch has no issues (overrides `fallbackBranches`) */
+  fallbackBranch?: string;
+  /** Keep only issues on lines changed against the base ref */
+  changedOnly?: boolean;
+  /** Base ref of the diff used by --changed-only */
+  base?: string;
+  /** Whether to compare with the previous run and write diff.json */
+  diff: boolean;
+  /** Whether to record the run in the history store (history/) */
+  history: boolean;
+  /** Whether to write the descriptions of the reported rules (rules.json) */
+  rules: boolean;
+  /** Attach the analyzed source lines to each issue */
+  withSources?: boolean;
+  /** Lines of context around the flagged lines, with --with-sources */
+  contextLines: number;
+  /** Extra output format written next to issues.json */
+  format: "json" | ExportFormat;
+}
+
+/**
+ * Validates a PR ID passed with --pr
+ * @param value - Raw option value
+ * @returns Trimmed PR ID
+ */
+export const parsePrId = (value: string): string => {
+  const prId = value.trim();
+  if (!prId || /\s/.test(prId)) {
+    throw new InvalidArgumentError("Expected a pull request ID, e.g. --pr 42");
+  }
+  return prId;
+};
+
+/**
+ * Validates a SonarQube PR link passed with --pr-link
+ * @param value - Raw option value
+ * @returns The link, unchanged
+ */
+export const parsePrLink = (value: string): string => {
+  try {
+    extractPrKeyFromLink(value);
+  } catch {
+    throw new InvalidArgumentError(
+      "Expected a SonarQube PR link, e.g. https://sonarcloud.io/project/issues?id=project&pullRequest=PR_KEY"
+    );
+  }
+  return value;
+};
+
+/**
+ * Validates the number of context lines passed with --context-lines
+ * @param value - Raw option value
+ * @returns Number of lines
+ */
+const parseContextLines = (value: string): number => {
+  const lines = Number(value);
+  if (!Number.isInteger(lines) || lines < 0) {
+    throw new InvalidArgumentError("Expected a number of lines, e.g. --context-lines 5");
+  }
+  return lines;
+};
+
+/**
+ * Declares arguments and options of the fetch command
+ * Shared by the sonarflow CLI (help and validation) and the fetch script (parsing)
+ * @param command - Commander command to configure
+ * @returns The configured command
+ */
+export const configureFetchCommand = (command: Command): Command =>
+  command
+    .description("Fetch Sonar issues and save to .sonarflow/issues.json")
+    .argument("[branch]", "Deprecated: use --branch")
+    .argument("[prLink]", "Deprecated: use --pr-link")
+    .option("-b, --branch <name>", "Branch to fetch (default: current git branch)")
+    .addOption(
+      new Option("--pr <id>", "SonarQube pull request ID (skips PR detection)")
+        .argParser(parsePrId)
+        .conflicts("prLink")
+    )
+    .addOption(
+      new Option("--pr-link <url>", "SonarQube pull request link (skips PR detection)").argParser(
+        parsePrLink
+      )
+    )
+    .option("--no-pr-detect", "Do not look up an open PR for the branch on the git provider")
+    .option("-o, --output <dir>", "Output directory (default: outputPath or .sonarflow/)")
+    .option(
+      "--fallback-branch <name>",
+      "Branch to fetch when the selected branch has no issues (default: fallbackBranches or the Sonar main branch)"
+    )
+    .option("--changed-only", "Keep only issues on lines changed against the base ref")
+    .option("--base <ref>", "Base ref for --changed-only (default: origin/HEAD, or origin/main)")
+    .option("--no-diff", "Do not compare with the previous run (diff.json)")
+    .option("--no-history", "Do not record the run in the history store (history/)")
+    .option("--no-rules", "Do not fetch the descriptions of the reported rules (rules.json)")
+    .option("--with-sources", "Attach the analyzed source lines and revision to each issue")
+    .addOption(
+      new Option(
+        "--context-lines <n>",
+        "Lines of context around the flagged lines (--with-sources)"
+      )
+        .argParser(parseContextLines)
+        .default(DEFAULT_CONTEXT_LINES)
+    )
+    .addOption(
+      new Option("--format <format>", "Also write issues in this format next to issues.json")
+        .choices(["json", ...EXPORT_FORMATS])
+        .default("json")
+    );
+
+/**
+ * Merges deprecated positional arguments into the parsed options
+ * Flags win over positional arguments when both are given
+ * @param options - Parsed options
+ * @param args - Positional arguments (branch, PR link)
+ * @returns Effective fetch options
+ */
+export const resolveFetchOptions = (
+  options: FetchOptions,
+  args: Array<string | undefined>
+): FetchOptions => {
+  const [branch, prLink] = args;
+  if (!branch && !prLink) {
+    return options;
+  }
+
+  console.warn(
+    chalk.yellow(
+      "⚠️  Positional arguments are deprecated and will be removed in a future release. Use --branch <name> and --pr-link <url> instead."
+    )
+  );
+
+  const resolved = { ...options, branch: options.branch ?? branch };
+  if (prLink && !options.prLink && !options.pr) {
+    resolved.prLink = prLink;
+  }
+  return resolved;
+};
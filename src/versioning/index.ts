@@ -1,169 +1,370 @@
 #!/usr/bin/env node
 
-import { execSync } from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
 import chalk from "chalk";
+import { Command } from "commander";
 import dotenv from "dotenv";
+import { diffSnapshots, printDiffSummary, readIssuesSnapshot } from "../diff/snapshot-diff.js";
+import { writeExport } from "../export/export-formats.js";
+import { getChangedLines, isIssueOnChangedLines, resolveBaseRef } from "../git/changed-lines.js";
+import { getHeadCommit, getRepoPathPrefix } from "../git/repo-paths.js";
+import { appendHistory, HISTORY_DIR } from "../history/history-store.js";
+import { formatHttpError, NotFoundError } from "../http/http-errors.js";
+import {
+  buildRulesCatalog,
+  collectRuleKeys,
+  RULES_FILE,
+  type RulesCatalog,
+} from "../rules/rules-catalog.js";
 import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+import {
+  SONAR_MODEL_VERSION,
+  type SonarflowChangedOnly,
+  type SonarflowFallback,
+  type SonarflowSources,
+  type SonarHotspotsResponse,
+  type SonarIssuesResponse,
+  type SonarMeasuresResponse,
+} from "../sonar/sonar-model.js";
+import { attachSourceSnippets } from "../sources/source-snippets.js";
+import { configureFetchCommand, type FetchOptions, resolveFetchOptions } from "./fetch-options.js";
+import {
+  mergeHotspots,
+  mergeIssues,
+  type ResolvedProject,
+  resolveProjects,
+  rewriteComponentPaths,
+  scopeChangedLines,
+} from "./monorepo.js";
+import {
+  loadConfiguration,
+  type ProjectConfig,
+  resolveCurrentBranch,
+  resolveSonarTarget,
+  type SonarTarget,
+} from "./project-config.js";
 
 dotenv.config();
 
-interface Config {
-  repoName: string;
-  gitOrganization: string;
-  sonarProjectKey: string;
-  sonarOrganization?: string;
-  gitProvider: "github" | "bitbucket";
-  outputPath?: string;
-  sonarBaseUrl?: string;
-  publicSonar?: boolean;
-  sonarMode?: "standard" | "custom";
-  rulesFlavor?: "safe" | "vibe-coder" | "yolo";
-  [key: string]: unknown;
-}
-
-interface SonarIssuesResponse {
-  issues?: Array<{ severity?: string; [key: string]: unknown }>;
-  [key: string]: unknown;
-}
-
 /**
- * Loads configuration from .sonarflowrc.json
- * @returns Configuration object
+ * Fetches issues for a branch, tolerating branches that were never analyzed
+ * @param extractor - SonarQube extractor
+ * @param branch - Branch name
+ * @param config - Configuration object
+ * @returns Issues data, or null when SonarQube does not know the branch
  */
-const loadConfiguration = (): Config => {
-  const configPath = path.join(process.cwd(), ".sonarflowrc.json");
-
-  if (!fs.existsSync(configPath)) {
-    throw new Error("Configuration file not found: .sonarflowrc.json");
+const fetchBranchIssues = async (
+  extractor: SonarIssueExtractor,
+  branch: string,
+  config: ProjectConfig
+): Promise<SonarIssuesResponse | null> => {
+  try {
+    return await extractor.fetchIssuesForBranch(branch, config);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      console.warn(chalk.yellow(`⚠️  Branch ${branch} not found on SonarQube`));
+      return null;
+    }
+    throw error;
   }
+};
 
-  const config = JSON.parse(fs.readFileSync(configPath, "utf8")) as Config;
-
-  // Validate required configuration
-  if (!config.gitProvider) {
-    throw new Error("gitProvider is required in configuration");
+/**
+ * Resolves the branches tried, in order, when the requested branch has no issues
+ * Priority: `fallbackBranches` from configuration (--fallback-branch included),
+ * then the main branch of the Sonar project
+ * @param extractor - SonarQube extractor
+ * @param config - Configuration object
+ * @returns Fallback branches (possibly empty)
+ */
+const resolveFallbackBranches = async (
+  extractor: SonarIssueExtractor,
+  config: ProjectConfig
+): Promise<string[]> => {
+  if (config.fallbackBranches && config.fallbackBranches.length > 0) {
+    return config.fallbackBranches;
   }
 
-  if (!["github", "bitbucket"].includes(config.gitProvider)) {
-    throw new Error("gitProvider must be either 'github' or 'bitbucket'");
+  try {
+    const mainBranch = await extractor.fetchMainBranch(config);
+    return mainBranch ? [mainBranch] : [];
+  } catch (error) {
+    console.warn(
+      chalk.yellow(`⚠️  Could not discover the Sonar main branch: ${formatHttpError(error)}`)
+    );
+    return [];
   }
+};
 
-  return config;
+/**
+ * Reads the issues.json of the previous run, if any
+ * @param issuesPath - Path of issues.json
+ * @returns Previous snapshot, or null when missing or unreadable
+ */
+const readPreviousSnapshot = (issuesPath: string): SonarIssuesResponse | null => {
+  if (!fs.existsSync(issuesPath)) {
+    return null;
+  }
+  try {
+    return readIssuesSnapshot(issuesPath);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(chalk.yellow(`⚠️  Ignoring previous issues.json: ${msg}`));
+    return null;
+  }
 };
 
 /**
- * Detects PR ID based on the configured git provider
- * @param branch - Current git branch name
- * @param gitProvider - Git provider (github or bitbucket)
- * @returns PR ID if found, null otherwise
+ * Issues fetched for one Sonar project
  */
-const detectPrId = async (
-  repoName: string,
-  branch: string,
-  organization: string,
-  gitProvider: "github" | "bitbucket"
-): Promise<string | null> => {
-  const extractor = new SonarIssueExtractor();
-  if (gitProvider === "github") {
-    return await extractor.detectGitHubPrId(branch);
+interface ProjectFetch {
+  issues: SonarIssuesResponse;
+  /** Branch or PR the issues come from, after fallback */
+  scope: { branch?: string; pullRequest?: string };
+  source: string;
+  fallback?: SonarflowFallback;
+}
+
+/**
+ * Everything fetched for one Sonar project
+ */
+interface FetchedProject extends ProjectFetch {
+  project: ResolvedProject;
+  measures: SonarMeasuresResponse | null;
+  hotspots: SonarHotspotsResponse | null;
+  sources?: SonarflowSources;
+}
+
+/**
+ * Fetches the issues of one Sonar project
+ * A branch without issues, or not analyzed, is replaced by the first fallback branch with issues
+ * @param extractor - SonarQube extractor
+ * @param config - Configuration of the project
+ * @param options - Fetch command options
+ * @param target - Branch or PR to fetch
+ * @param currentBranch - Branch selected with --branch, or the current git branch
+ * @returns Issues, and the branch or PR they come from
+ */
+const fetchProjectIssues = async (
+  extractor: SonarIssueExtractor,
+  config: ProjectConfig,
+  options: FetchOptions,
+  target: SonarTarget,
+  currentBranch: string
+): Promise<ProjectFetch> => {
+  if (options.prLink) {
+    return { issues: await extractor.fetchIssuesForPr(options.prLink, config), ...target };
+  }
+  if (target.scope.pullRequest) {
+    return {
+      issues: await extractor.fetchIssuesForPrId(target.scope.pullRequest, config),
+      ...target,
+    };
+  }
+
+  const branchIssues = await fetchBranchIssues(extractor, currentBranch, config);
+  if (branchIssues?.issues && branchIssues.issues.length > 0) {
+    return { issues: branchIssues, ...target };
   }
-  if (gitProvider === "bitbucket") {
-    return await extractor.detectBitbucketPrId(branch, repoName, organization);
+
+  // Try the fallback branches in order if no issues found
+  const reason = branchIssues
+    ? `no issues found on ${currentBranch}`
+    : `${currentBranch} is not analyzed on SonarQube`;
+  const fallbackBranches = await resolveFallbackBranches(extractor, config);
+  for (const fallbackBranch of fallbackBranches.filter((b) => b !== currentBranch)) {
+    console.warn(chalk.yellow(`Falling back to branch: ${fallbackBranch} (${reason})`));
+    const fallbackIssues = await fetchBranchIssues(extractor, fallbackBranch, config);
+    if (fallbackIssues?.issues && fallbackIssues.issues.length > 0) {
+      return {
+        issues: fallbackIssues,
+        scope: { branch: fallbackBranch },
+        source: `${fallbackBranch} (fallback from ${currentBranch})`,
+        fallback: { requestedBranch: currentBranch, branch: fallbackBranch, reason },
+      };
+    }
   }
 
-  return null;
+  if (!branchIssues) {
+    throw new Error(
+      `Branch ${currentBranch} is not analyzed on SonarQube and no fallback branch has issues`
+    );
+  }
+  return { issues: branchIssues, ...target };
 };
 
 /**
- * Fetches SonarQube issues based on configuration and command line arguments
- * @param branchName - Optional branch name
- * @param sonarPrLink - Optional SonarQube PR link
+ * Fetches SonarQube issues based on configuration and command line options
+ * @param options - Fetch command options
  */
-const fetchSonarIssues = async (
-  branchName: string | null = null,
-  sonarPrLink: string | null = null
-): Promise<void> => {
+const fetchSonarIssues = async (options: FetchOptions): Promise<void> => {
   try {
     // Load configuration
-    const config = loadConfiguration();
+    const config = loadConfiguration(process.cwd(), {
+      outputPath: options.output ? { value: options.output, flag: "--output" } : undefined,
+      fallbackBranches: options.fallbackBranch
+        ? { value: [options.fallbackBranch], flag: "--fallback-branch" }
+        : undefined,
+    });
     console.log(chalk.blue(`🔧 Using configuration: ${JSON.stringify(config, null, 2)}`));
 
     // Get current git branch
-    const currentBranch =
-      branchName || execSync("git branch --show-current", { encoding: "utf8" }).trim();
+    const currentBranch = resolveCurrentBranch(options);
     console.log(chalk.blue(`Current branch: ${currentBranch}`));
 
+    // Compute the diff first so that a bad base ref fails before any API call
+    const base = options.changedOnly ? resolveBaseRef(options.base) : undefined;
+    const changedLines = base ? getChangedLines(base) : undefined;
+
     // Initialize SonarQube extractor
-    const extractor = new SonarIssueExtractor();
-
-    let issues: SonarIssuesResponse;
-    let usedSource: string;
-    let fetchOptions: { branch?: string; pullRequest?: string } = {};
-
-    if (sonarPrLink) {
-      // If PR link is provided, fetch issues from that PR
-      console.log(chalk.blue(`Using provided SonarQube PR link: ${sonarPrLink}`));
-      // Extract PR key from link
-      const prKeyMatch = sonarPrLink.match(/pullRequest=([^&]+)/);
-      const prKey = prKeyMatch ? prKeyMatch[1] : null;
-      if (!prKey) {
-        throw new Error(
-          "Invalid SonarQube PR link format. Expected format: https://sonarcloud.io/project/issues?id=project&pullRequest=PR_KEY"
-        );
+    const extractor = new SonarIssueExtractor(config);
+    const target = await resolveSonarTarget(options, config, currentBranch);
+
+    // Monorepos have one Sonar project per folder; --changed-only skips those without changes
+    const monorepo = config.projects !== undefined;
+    const allProjects = resolveProjects(config);
+    const projects =
+      monorepo && changedLines
+        ? allProjects.filter((project) => scopeChangedLines(changedLines, project.path).size > 0)
+        : allProjects;
+    if (monorepo) {
+      console.log(
+        chalk.blue(
+          `📦 Fetching ${projects.length} of ${allProjects.length} Sonar project(s)${base ? ` touched by the diff against ${base}` : ""}`
+        )
+      );
+    }
+
+    const fetched: FetchedProject[] = [];
+    let totalIssues = 0;
+    // Issues SonarQube reported, before --changed-only, to tell whether the fetch was truncated
+    let reportedIssues = 0;
+    for (const project of projects) {
+      if (monorepo) {
+        console.log(chalk.blue(`\n📦 ${project.config.sonarProjectKey} (${project.path || "."})`));
       }
-      issues = await extractor.fetchIssuesForPr(sonarPrLink, config);
-      fetchOptions = { pullRequest: prKey };
-      usedSource = `PR: ${sonarPrLink}`;
-    } else {
-      // Try to automatically detect PR ID from current branch
-      const detectedPrId = await detectPrId(
-        config.repoName,
-        currentBranch,
-        config.gitOrganization,
-        config.gitProvider
+      const projectFetch = await fetchProjectIssues(
+        extractor,
+        project.config,
+        options,
+        target,
+        currentBranch
       );
+      const { issues, scope } = projectFetch;
+      const allIssues = issues.issues ?? [];
+      totalIssues += allIssues.length;
+      reportedIssues += issues.paging?.total ?? allIssues.length;
 
-      if (detectedPrId) {
-        // Use detected PR ID
-        console.log(chalk.green(`🚀 Using automatically detected PR ID: ${detectedPrId}`));
-        issues = await extractor.fetchIssuesForPrId(detectedPrId, config);
-        fetchOptions = { pullRequest: detectedPrId };
-        usedSource = `PR #${detectedPrId} (auto-detected from branch: ${currentBranch})`;
-      } else {
-        // Fallback to branch-based approach
-        console.warn(chalk.yellow("📋 No PR detected, falling back to branch-based approach"));
-        issues = await extractor.fetchIssuesForBranch(currentBranch, config);
-        fetchOptions = { branch: currentBranch };
-        usedSource = currentBranch;
-
-        // Fallback to develop if no issues found
-        if (!issues.issues || issues.issues.length === 0) {
+      // Keep only issues on lines changed against the base ref; paging counts the kept issues
+      if (changedLines) {
+        const projectChanges = scopeChangedLines(changedLines, project.path);
+        const changedIssues = allIssues.filter((issue) =>
+          isIssueOnChangedLines(issue, projectChanges)
+        );
+        issues.issues = changedIssues;
+        issues.total = changedIssues.length;
+        if (issues.paging) {
+          issues.paging = {
+            ...issues.paging,
+            pageSize: changedIssues.length,
+            total: changedIssues.length,
+          };
+        }
+      }
+
+      // Extract duplications, coverage, and security issues
+      console.log(chalk.blue("📊 Fetching duplications, coverage, and security hotspots..."));
+      const [measures, hotspots] = await Promise.all([
+        extractor.fetchMeasures(project.config, scope).catch((error) => {
+          console.warn(chalk.yellow(`⚠️  Failed to fetch measures: ${formatHttpError(error)}`));
+          return null;
+        }),
+        extractor.fetchSecurityHotspots(project.config, scope).catch((error) => {
           console.warn(
-            chalk.yellow("No issues found for current branch. Falling back to branch: develop")
+            chalk.yellow(`⚠️  Failed to fetch security hotspots: ${formatHttpError(error)}`)
           );
-          issues = await extractor.fetchIssuesForBranch("develop", config);
-          fetchOptions = { branch: "develop" };
-          usedSource = "develop";
+          return null;
+        }),
+      ]);
+
+      // Sonar paths are relative to the project folder: make them relative to the working directory
+      if (monorepo) {
+        rewriteComponentPaths(issues, issues.issues ?? [], project);
+        if (hotspots) {
+          rewriteComponentPaths(hotspots, hotspots.hotspots ?? [], project);
         }
       }
+
+      // Attach the analyzed code, so a fix is only applied where the code still matches
+      let sources: SonarflowSources | undefined;
+      if (options.withSources) {
+        console.log(chalk.blue("🔍 Fetching the analyzed source of each issue..."));
+        sources = await attachSourceSnippets(
+          extractor,
+          project.config,
+          issues,
+          scope,
+          options.contextLines
+        );
+      }
+
+      fetched.push({ ...projectFetch, project, measures, hotspots, sources });
     }
 
-    // Extract duplications, coverage, and security issues
-    console.log(chalk.blue("📊 Fetching duplications, coverage, and security hotspots..."));
-    const [measures, securityHotspots] = await Promise.all([
-      extractor.fetchMeasures(config, fetchOptions).catch((error) => {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(chalk.yellow(`⚠️  Failed to fetch measures: ${errorMessage}`));
-        return {};
-      }),
-      extractor.fetchSecurityHotspots(config, fetchOptions).catch((error) => {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(chalk.yellow(`⚠️  Failed to fetch security hotspots: ${errorMessage}`));
-        return {};
-      }),
-    ]);
+    // Merge the projects of a monorepo, with paths relative to the repository root;
+    // measures are computed per project and are not merged
+    const pathPrefix = monorepo ? getRepoPathPrefix() : "";
+    const issues = monorepo
+      ? mergeIssues(
+          fetched.map(({ issues }) => issues),
+          pathPrefix
+        )
+      : fetched[0].issues;
+    const securityHotspots = monorepo
+      ? mergeHotspots(
+          fetched.map(({ hotspots }) => hotspots),
+          pathPrefix
+        )
+      : fetched[0].hotspots;
+    const measures = monorepo ? null : fetched[0].measures;
+    const { scope: fetchOptions, source: usedSource } = monorepo ? target : fetched[0];
+    const fallback = monorepo ? undefined : fetched[0].fallback;
+
+    let changedOnly: SonarflowChangedOnly | undefined;
+    if (base && changedLines) {
+      changedOnly = { base, totalIssues, changedIssues: issues.issues?.length ?? 0 };
+      console.log(
+        chalk.blue(
+          `🔍 Kept ${changedOnly.changedIssues} of ${changedOnly.totalIssues} issues on lines changed against ${base} (${changedLines.size} file(s))`
+        )
+      );
+    }
+
+    let sources: SonarflowSources | undefined;
+    if (options.withSources) {
+      const summaries = fetched.flatMap((project) => (project.sources ? [project.sources] : []));
+      const revisions = new Set(summaries.map((summary) => summary.revision));
+      const [revision] = revisions;
+      sources = {
+        ...(revisions.size === 1 && revision && { revision }),
+        contextLines: options.contextLines,
+        snippets: summaries.reduce((sum, summary) => sum + summary.snippets, 0),
+        mismatches: summaries.reduce((sum, summary) => sum + summary.mismatches, 0),
+      };
+      console.log(
+        chalk.blue(
+          `🔍 Attached ${sources.snippets} snippet(s)${sources.revision ? ` from revision ${sources.revision.substring(0, 7)}` : ""}`
+        )
+      );
+      if (sources.mismatches > 0) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  ${sources.mismatches} snippet(s) no longer match the working tree (matchesWorkingTree: false)`
+          )
+        );
+      }
+    }
 
     // Save issues to file
     const outputPath = config.outputPath || ".sonarflow/";
@@ -172,30 +373,119 @@ const fetchSonarIssues = async (
       fs.mkdirSync(sonarDir, { recursive: true });
     }
 
+    issues.sonarflow = {
+      schemaVersion: SONAR_MODEL_VERSION,
+      generatedAt: new Date().toISOString(),
+      source: usedSource,
+      ...fetchOptions,
+      ...(fallback && { fallback }),
+      ...(changedOnly && { changedOnly }),
+      ...(sources && { sources }),
+      ...(monorepo && {
+        projects: fetched.map((project) => ({
+          key: project.project.config.sonarProjectKey,
+          path: project.project.path,
+          source: project.source,
+          ...project.scope,
+          ...(project.fallback && { fallback: project.fallback }),
+          issues: project.issues.issues?.length ?? 0,
+        })),
+      }),
+    };
+
     const issuesPath = path.join(sonarDir, "issues.json");
+    const previousIssues = readPreviousSnapshot(issuesPath);
+    if (previousIssues) {
+      fs.copyFileSync(issuesPath, path.join(sonarDir, "issues.previous.json"));
+    }
     fs.writeFileSync(issuesPath, JSON.stringify(issues, null, 2));
 
     // Save measures (duplications and coverage) if available
-    if (measures && Object.keys(measures).length > 0) {
+    if (measures) {
       const measuresPath = path.join(sonarDir, "measures.json");
       fs.writeFileSync(measuresPath, JSON.stringify(measures, null, 2));
       console.log(chalk.blue(`📁 Saved measures to: ${measuresPath}`));
     }
 
     // Save security hotspots if available
-    if (securityHotspots && Object.keys(securityHotspots).length > 0) {
+    if (securityHotspots) {
       const hotspotsPath = path.join(sonarDir, "security-hotspots.json");
       fs.writeFileSync(hotspotsPath, JSON.stringify(securityHotspots, null, 2));
-      const hotspotsCount =
-        (securityHotspots as { hotspots?: Array<unknown> }).hotspots?.length || 0;
+      const hotspotsCount = securityHotspots.hotspots?.length || 0;
       console.log(chalk.blue(`📁 Saved ${hotspotsCount} security hotspot(s) to: ${hotspotsPath}`));
     }
 
+    // Describe the reported rules, so the AI can follow the official remediation guidance
+    let rules: RulesCatalog | null = null;
+    if (options.rules) {
+      const ruleKeys = collectRuleKeys({ issues, hotspots: securityHotspots });
+      const rulesPath = path.join(sonarDir, RULES_FILE);
+      if (ruleKeys.length === 0) {
+        fs.rmSync(rulesPath, { force: true });
+      } else {
+        console.log(chalk.blue(`📚 Fetching descriptions of ${ruleKeys.length} rule(s)...`));
+        rules = await buildRulesCatalog(
+          extractor,
+          fetched[0]?.project.config ?? config,
+          ruleKeys,
+          sonarDir
+        );
+        fs.writeFileSync(rulesPath, JSON.stringify(rules, null, 2));
+        console.log(
+          chalk.blue(
+            `📁 Saved ${Object.keys(rules.rules).length} rule description(s) to: ${rulesPath}`
+          )
+        );
+      }
+    }
+
+    if (options.format !== "json") {
+      const exportPath = writeExport(
+        options.format,
+        { issues, hotspots: securityHotspots, rules },
+        sonarDir,
+        undefined,
+        config.sonarBaseUrl
+      );
+      console.log(chalk.blue(`📁 Saved ${options.format} export to: ${exportPath}`));
+    }
+
+    // Record the run in the history store (see sonarflow trend)
+    if (options.history) {
+      const entry = appendHistory(
+        sonarDir,
+        { issues, hotspots: securityHotspots, measures },
+        getHeadCommit()
+      );
+      console.log(
+        chalk.blue(`📁 Recorded run in history: ${path.join(sonarDir, HISTORY_DIR, entry.id)}`)
+      );
+    }
+
     console.log(
       chalk.green(
         `✅ Successfully fetched ${issues.issues?.length || 0} issues (source: ${usedSource})`
       )
     );
+    // The truncation happened before --changed-only: report it against the whole scope
+    if (issues.truncated) {
+      console.warn(
+        chalk.yellow(
+          changedOnly
+            ? `⚠️  issues.json may miss issues on changed lines: only ${totalIssues} of the ${reportedIssues} issues SonarQube reported for ${usedSource} were fetched before filtering`
+            : `⚠️  issues.json is incomplete: fetched ${totalIssues} of the ${reportedIssues} issues SonarQube reported for ${usedSource}`
+        )
+      );
+    }
+    for (const project of fetched) {
+      if (project.fallback) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  ${monorepo ? `Issues of ${project.project.config.sonarProjectKey}` : "These issues"} come from fallback branch ${project.fallback.branch}, not from ${project.fallback.requestedBranch} (${project.fallback.reason})`
+          )
+        );
+      }
+    }
     console.log(chalk.blue(`📁 Saved to: ${issuesPath}`));
 
     // Display summary
@@ -212,17 +502,29 @@ const fetchSonarIssues = async (
         console.log(chalk.blue(`  ${severity}: ${count}`));
       }
     }
+
+    // Compare with the previous run
+    if (previousIssues && options.diff) {
+      const diff = diffSnapshots(previousIssues, issues);
+      const diffPath = path.join(sonarDir, "diff.json");
+      fs.writeFileSync(diffPath, JSON.stringify(diff, null, 2));
+      if (diff.previous.source && diff.previous.source !== usedSource) {
+        console.warn(
+          chalk.yellow(`⚠️  Previous run fetched a different source: ${diff.previous.source}`)
+        );
+      }
+      printDiffSummary(diff, "Changes since previous run");
+      console.log(chalk.blue(`📁 Saved diff to: ${diffPath}`));
+    }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(chalk.red(`❌ Error fetching SonarQube issues: ${errorMessage}`));
+    console.error(chalk.red(`❌ Error fetching SonarQube issues: ${formatHttpError(error)}`));
     process.exit(1);
   }
 };
 
 // Parse command line arguments
-const args = process.argv.slice(2);
-const branchName = args[0] || null;
-const sonarPrLink = args[1] || null;
+const program = configureFetchCommand(new Command("sonarflow fetch"));
+program.parse(process.argv);
 
 // Execute the main function
-await fetchSonarIssues(branchName, sonarPrLink);
+await fetchSonarIssues(resolveFetchOptions(program.opts<FetchOptions>(), program.args));
@@ -0,0 +1,182 @@
+import path from "node:path";
+import { type ChangedLines, componentToPath } from "../git/changed-lines.js";
+import { toRepoPath } from "../git/repo-paths.js";
+import type {
+  SonarComponent,
+  SonarHotspotsResponse,
+  SonarIssuesResponse,
+} from "../sonar/sonar-model.js";
+import type { ProjectConfig } from "./project-config.js";
+
+/**
+ * Sonar project to fetch, with the configuration used for its API calls
+ */
+export interface ResolvedProject {
+  /** Folder of the project relative to the working directory, "" for the root */
+  path: string;
+  config: ProjectConfig;
+}
+
+/**
+ * Lists the Sonar projects of the configuration
+ * Without `projects`, the whole working directory is one project (`sonarProjectKey`)
+ * @param config - Configuration object
+ * @returns Projects, each with its key and organization applied to the configuration
+ */
+export const resolveProjects = (config: ProjectConfig): ResolvedProject[] => {
+  if (!config.projects) {
+    return [{ path: "", config }];
+  }
+  return config.projects.map((project) => ({
+    path: path.posix.normalize(project.path.replace(/\\/g, "/")).replace(/^\.\/?|\/$/g, ""),
+    config: {
+      ...config,
+      sonarProjectKey: project.sonarProjectKey,
+      sonarOrganization: project.sonarOrganization ?? config.sonarOrganization,
+      // SonarCloud issue searches are scoped by sonarComponentKeys rather than the project key
+      ...(config.sonarComponentKeys !== undefined && {
+        sonarComponentKeys: project.sonarProjectKey,
+      }),
+    },
+  }));
+};
+
+/**
+ * Restricts changed lines to the files of a project
+ * @param changed - Changed line ranges by path relative to the working directory
+ * @param projectPath - Folder of the project ("" for the root)
+ * @returns Changed line ranges by path relative to the project folder
+ */
+export const scopeChangedLines = (changed: ChangedLines, projectPath: string): ChangedLines => {
+  if (!projectPath) {
+    return changed;
+  }
+  const prefix = `${projectPath}/`;
+  return new Map(
+    [...changed]
+      .filter(([file]) => file.startsWith(prefix))
+      .map(([file, ranges]) => [file.slice(prefix.length), ranges])
+  );
+};
+
+/**
+ * Rewrites the component paths of a response so they are relative to the working directory,
+ * and names the project of each finding so links point at it once the projects are merged
+ * Components referenced by findings but missing from `components` are added, so every finding
+ * resolves to a rewritten path
+ * @param response - Issues or hotspots response, updated in place
+ * @param findings - Issues or hotspots of the response, updated in place
+ * @param project - Project of the response
+ */
+export const rewriteComponentPaths = (
+  response: { components?: SonarComponent[] },
+  findings: Array<{ component: string; project?: string }>,
+  project: ResolvedProject
+): void => {
+  const projectPath = project.path;
+  for (const finding of findings) {
+    finding.project ??= project.config.sonarProjectKey;
+  }
+  const components = response.components ?? [];
+  const referenced = new Set(findings.map((finding) => finding.component));
+  for (const component of components) {
+    // The project component itself has no path
+    const relativePath =
+      component.path ??
+      (referenced.has(component.key) ? componentToPath(component.key) : undefined);
+    if (relativePath !== undefined) {
+      component.path = path.posix.join(projectPath, relativePath);
+    }
+    referenced.delete(component.key);
+  }
+  for (const key of referenced) {
+    components.push({ key, path: path.posix.join(projectPath, componentToPath(key)) });
+  }
+  response.components = components;
+};
+
+/**
+ * Sums the paging of several responses
+ * @param responses - Responses of the fetched projects
+ * @returns Merged paging, or undefined when no response has one
+ */
+const mergePaging = (
+  responses: Array<{ paging?: SonarIssuesResponse["paging"] }>
+): SonarIssuesResponse["paging"] => {
+  const pagings = responses.flatMap((response) => (response.paging ? [response.paging] : []));
+  if (pagings.length === 0) {
+    return undefined;
+  }
+  const total = pagings.reduce((sum, paging) => sum + paging.total, 0);
+  return { pageIndex: 1, pageSize: total, total };
+};
+
+/**
+ * Makes the rewritten component paths of merged responses relative to the repository root
+ * @param components - Components of the merged responses
+ * @param pathPrefix - Result of getRepoPathPrefix
+ * @returns Components with repository-relative paths
+ */
+const toRepoComponents = (components: SonarComponent[], pathPrefix: string): SonarComponent[] =>
+  components.map((component) =>
+    component.path === undefined
+      ? component
+      : { ...component, path: toRepoPath(component.path, pathPrefix) }
+  );
+
+/**
+ * Merges the issues of several projects into one response
+ * @param responses - Issues of each project, with rewritten component paths
+ * @param pathPrefix - Result of getRepoPathPrefix, so the merged paths are repository-relative
+ * @returns Merged issues
+ */
+export const mergeIssues = (
+  responses: SonarIssuesResponse[],
+  pathPrefix: string
+): SonarIssuesResponse => {
+  const rules = new Map(
+    responses.flatMap((response) => response.rules ?? []).map((rule) => [rule.key, rule])
+  );
+  const users = new Map(
+    responses.flatMap((response) => response.users ?? []).map((user) => [user.login, user])
+  );
+  const issues = responses.flatMap((response) => response.issues ?? []);
+  return {
+    paging: mergePaging(responses),
+    total: issues.length,
+    effortTotal: responses.reduce((sum, response) => sum + (response.effortTotal ?? 0), 0),
+    issues,
+    components: toRepoComponents(
+      responses.flatMap((response) => response.components ?? []),
+      pathPrefix
+    ),
+    rules: [...rules.values()],
+    users: [...users.values()],
+    ...(responses.some((response) => response.truncated) && { truncated: true }),
+  };
+};
+
+/**
+ * Merges the security hotspots of several projects into one response
+ * @param responses - Hotspots of each project, with rewritten component paths
+ * @param pathPrefix - Result of getRepoPathPrefix, so the merged paths are repository-relative
+ * @returns Merged hotspots, or null when none could be fetched
+ */
+export const mergeHotspots = (
+  responses: Array<SonarHotspotsResponse | null>,
+  pathPrefix: string
+): SonarHotspotsResponse | null => {
+  const fetched = responses.filter((response): response is SonarHotspotsResponse => !!response);
+  if (fetched.length === 0) {
+    return null;
+  }
+  return {
+    paging: mergePaging(fetched),
+    hotspots: fetched.flatMap((response) => response.hotspots ?? []),
+    components: toRepoComponents(
+      fetched.flatMap((response) => response.components ?? []),
+      pathPrefix
+    ),
+    ...(fetched.some((response) => response.truncated) && { truncated: true }),
+  };
+};
@@ -0,0 +1,196 @@
+import { execSync } from "node:child_process";
+import chalk from "chalk";
+import {
+  type ConfigOverrides,
+  locateConfigProblems,
+  resolveConfig,
+} from "../config/config-resolver.js";
+import { formatConfigProblems, validateConfig } from "../config/config-schema.js";
+import { extractPrKeyFromLink } from "../sonar/pr-detection-utils.js";
+import { SonarIssueExtractor } from "../sonar/sonar-issue-extractor.js";
+
+/**
+ * Sonar project of a monorepo folder, as listed in `projects`
+ */
+export interface SonarProjectEntry {
+  /** Folder of the project, relative to the directory of .sonarflowrc.json (e.g. apps/web) */
+  path: string;
+  sonarProjectKey: string;
+  /** Defaults to the top-level sonarOrganization */
+  sonarOrganization?: string;
+}
+
+/**
+ * Project configuration, as stored in .sonarflowrc.json
+ */
+export interface ProjectConfig {
+  repoName: string;
+  gitOrganization: string;
+  sonarProjectKey: string;
+  sonarOrganization?: string;
+  gitProvider: "github" | "bitbucket" | "gitlab" | "azure-devops";
+  githubOwner?: string;
+  githubRepo?: string;
+  gitEmail?: string;
+  githubApiUrl?: string;
+  bitbucketFlavor?: "cloud" | "server";
+  bitbucketBaseUrl?: string;
+  gitlabBaseUrl?: string;
+  azureDevOpsProject?: string;
+  azureDevOpsRepository?: string;
+  outputPath?: string;
+  sonarBaseUrl?: string;
+  publicSonar?: boolean;
+  sonarMode?: "standard" | "custom";
+  rulesFlavor?: "safe" | "vibe-coder" | "yolo";
+  fallbackBranches?: string[];
+  /** Monorepos: one Sonar project per folder, fetched together */
+  projects?: SonarProjectEntry[];
+  [key: string]: unknown;
+}
+
+/**
+ * Loads the effective configuration and validates it against the configuration schema
+ * Settings are merged from the user-level configuration, .sonarflowrc.json, SONARFLOW_*
+ * environment variables and CLI flags (see resolveConfig). Unknown keys only produce a warning,
+ * so configurations written by newer versions still load
+ * @param directory - Directory containing .sonarflowrc.json (default: working directory)
+ * @param overrides - Settings passed on the command line
+ * @returns Configuration object
+ * @throws Error listing the offending keys when the configuration is invalid
+ */
+export const loadConfiguration = (
+  directory = process.cwd(),
+  overrides: ConfigOverrides = {}
+): ProjectConfig => {
+  const { config, origins, projectPath } = resolveConfig(directory, overrides);
+  if (!projectPath) {
+    throw new Error("Configuration file not found: .sonarflowrc.json");
+  }
+
+  const { errors, unknownKeys } = validateConfig(config);
+  for (const problem of locateConfigProblems(unknownKeys, origins)) {
+    console.warn(chalk.yellow(`⚠️  Configuration: ${problem.key}: ${problem.message}`));
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid configuration:\n${formatConfigProblems(locateConfigProblems(errors, origins))}\nRun 'sonarflow config validate' to check it`
+    );
+  }
+
+  return config as ProjectConfig;
+};
+
+/**
+ * Detects PR ID based on the configured git provider
+ * @param branch - Current git branch name
+ * @param config - Configuration object (git provider, repository and provider URLs)
+ * @returns PR ID if found, null otherwise
+ */
+export const detectPrId = async (branch: string, config: ProjectConfig): Promise<string | null> => {
+  const extractor = new SonarIssueExtractor(config);
+  if (config.gitProvider === "github") {
+    return await extractor.detectGitHubPrId(branch, config.githubApiUrl);
+  }
+  if (config.gitProvider === "bitbucket" && config.bitbucketFlavor === "server") {
+    return await extractor.detectBitbucketServerPrId(
+      branch,
+      config.repoName,
+      config.gitOrganization,
+      config.bitbucketBaseUrl
+    );
+  }
+  if (config.gitProvider === "bitbucket") {
+    return await extractor.detectBitbucketPrId(branch, config.repoName, config.gitOrganization);
+  }
+  if (config.gitProvider === "gitlab") {
+    return await extractor.detectGitLabPrId(
+      branch,
+      config.repoName,
+      config.gitOrganization,
+      config.gitlabBaseUrl
+    );
+  }
+  if (config.gitProvider === "azure-devops") {
+    return await extractor.detectAzureDevOpsPrId(
+      branch,
+      config.gitOrganization,
+      config.azureDevOpsProject,
+      config.azureDevOpsRepository || config.repoName
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Options selecting the branch or PR of a command (fetch, gate)
+ */
+export interface SonarTargetOptions {
+  /** Branch (defaults to the current git branch) */
+  branch?: string;
+  /** SonarQube pull request key */
+  pr?: string;
+  /** SonarQube pull request link */
+  prLink?: string;
+  /** Whether to look up an open PR for the branch on the git provider */
+  prDetect: boolean;
+}
+
+/**
+ * Branch or PR selected for a command, before any fallback
+ */
+export interface SonarTarget {
+  scope: { branch?: string; pullRequest?: string };
+  source: string;
+}
+
+/**
+ * Branch selected with --branch, or the current git branch
+ * @param options - Command options
+ * @returns Branch name
+ */
+export const resolveCurrentBranch = (options: SonarTargetOptions): string =>
+  options.branch || execSync("git branch --show-current", { encoding: "utf8" }).trim();
+
+/**
+ * Resolves the branch or PR of a command:
+ * --pr-link, then --pr, then the PR detected for the branch, then the branch itself
+ * @param options - Command options
+ * @param config - Configuration object
+ * @param currentBranch - Branch selected with --branch, or the current git branch
+ * @returns Branch or PR, and its description
+ */
+export const resolveSonarTarget = async (
+  options: SonarTargetOptions,
+  config: ProjectConfig,
+  currentBranch: string
+): Promise<SonarTarget> => {
+  if (options.prLink) {
+    console.log(chalk.blue(`Using provided SonarQube PR link: ${options.prLink}`));
+    return {
+      scope: { pullRequest: extractPrKeyFromLink(options.prLink) },
+      source: `PR: ${options.prLink}`,
+    };
+  }
+  if (options.pr) {
+    console.log(chalk.blue(`Using provided PR ID: ${options.pr}`));
+    return { scope: { pullRequest: options.pr }, source: `PR #${options.pr}` };
+  }
+
+  // Try to automatically detect PR ID from current branch, unless disabled
+  const detectedPrId = options.prDetect ? await detectPrId(currentBranch, config) : null;
+  if (detectedPrId) {
+    console.log(chalk.green(`🚀 Using automatically detected PR ID: ${detectedPrId}`));
+    return {
+      scope: { pullRequest: detectedPrId },
+      source: `PR #${detectedPrId} (auto-detected from branch: ${currentBranch})`,
+    };
+  }
+
+  // Fallback to branch-based approach
+  if (options.prDetect) {
+    console.warn(chalk.yellow("📋 No PR detected, falling back to branch-based approach"));
+  }
+  return { scope: { branch: currentBranch }, source: currentBranch };
+};